@@ -0,0 +1,375 @@
+#!/usr/bin/env bun
+import { parseArgs } from 'node:util';
+import { mkdir } from 'node:fs/promises';
+import { Generator } from './generator/generator.ts';
+import { ModuleLoader } from './engine/module-loader.ts';
+import { registerAllStates } from './engine/states/index.ts';
+import { FHIR_VERSIONS, createFHIRExporter } from './export/fhir/versions.ts';
+import { FHIRBulkExporter } from './export/fhir/bulk.ts';
+import { CSVExporter } from './export/csv/index.ts';
+import { JSONExporter } from './export/json/index.ts';
+import { FileBasedPersonStorage } from './storage/index.ts';
+import { Config, initConfig } from './config/index.ts';
+import { GeneratorOptions, FHIRVersion } from './types/index.ts';
+
+const EXPORT_FORMATS = ['fhir', 'csv', 'json'] as const;
+
+const USAGE = `Usage: atomic-synth <command> [options]
+
+Commands:
+  generate        Generate a synthetic population, optionally for a
+                  [state] [city] (e.g. generate Massachusetts Springfield)
+  validate        Validate modules
+  list-modules    List available modules
+  export          Export stored persons
+
+Options for generate:
+  -p, --population <n>        Number of persons (default: 1)
+  -s, --seed <n>              Random seed
+  -m, --modules <dir>         Modules directory (default: ./modules)
+      --providers <dir>       Provider CSV files to attribute encounters to
+      --demographics <dir>    Census CSV files to draw persons from
+  -a, --age <min-max>         Only generate persons of these ages (e.g. 30-40)
+  -g, --gender <M|F>          Only generate persons of this gender
+      --keep-condition <code> Only keep persons who ever had this condition,
+                              given as system|code or code; repeatable
+      --max-attempts <n>      Persons simulated at most while keeping
+                              (default: 100 per person)
+  -f, --format <format>       Export format: fhir, csv or json (default: fhir)
+  -o, --out <dir>             Output directory (default: ./output)
+      --bulk                  Write FHIR as Bulk Data NDJSON files and a manifest
+      --fhir-version <v>      FHIR version: R4, STU3 or DSTU2 (default: R4)
+  -w, --workers <n>           Parallel workers (default: 1)
+      --reference-date <date> Simulate up to this date, YYYY-MM-DD (default: today)
+      --store <dir>           Also save generated persons for a later export
+  -c, --config <file>         Configuration file (JSON or YAML)
+
+Options for validate and list-modules:
+  -m, --modules <dir>         Modules directory (default: ./modules)
+
+Options for export:
+      --from <dir>            Directory of persons saved with --store
+  -f, --format <format>       Export format: fhir, csv or json (default: fhir)
+  -o, --out <dir>             Output directory (default: ./output)
+      --bulk                  Write FHIR as Bulk Data NDJSON files and a manifest
+      --fhir-version <v>      FHIR version: R4, STU3 or DSTU2 (default: R4)
+
+  -h, --help                  Show this help
+`;
+
+// Thrown for invalid command line usage
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+// Run the CLI with the given arguments (without the runtime and script)
+// and return the process exit code
+export async function runCli(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  
+  try {
+    switch (command) {
+      case 'generate':
+        return await generate(rest);
+      case 'validate':
+        return await validate(rest);
+      case 'list-modules':
+        return await listModules(rest);
+      case 'export':
+        return await exportPersons(rest);
+      case undefined:
+      case '-h':
+      case '--help':
+      case 'help':
+        console.log(USAGE);
+        return 0;
+      default:
+        throw new CliError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof CliError || (error as any)?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      console.error(`Error: ${(error as Error).message}\n`);
+      console.error(USAGE);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+async function generate(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      population: { type: 'string', short: 'p' },
+      seed: { type: 'string', short: 's' },
+      modules: { type: 'string', short: 'm' },
+      providers: { type: 'string' },
+      demographics: { type: 'string' },
+      age: { type: 'string', short: 'a' },
+      gender: { type: 'string', short: 'g' },
+      'keep-condition': { type: 'string', multiple: true },
+      'max-attempts': { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      bulk: { type: 'boolean' },
+      'fhir-version': { type: 'string' },
+      workers: { type: 'string', short: 'w' },
+      'reference-date': { type: 'string' },
+      store: { type: 'string' },
+      config: { type: 'string', short: 'c' }
+    }
+  });
+  
+  // Command line options take precedence over configuration
+  const config = await initConfig(values.config ? { configFiles: [values.config] } : undefined);
+  const options = buildGeneratorOptions(values, config, positionals);
+  
+  const storage = values.store ? new FileBasedPersonStorage(values.store) : undefined;
+  if (values.store) {
+    await mkdir(values.store, { recursive: true });
+  }
+  
+  const generator = new Generator(options, storage);
+  const stats = await generator.generate();
+  
+  console.log(`Generated ${stats.totalGenerated} persons ` +
+    `(${stats.livingPatients} living, ${stats.deceasedPatients} deceased) ` +
+    `in ${(stats.elapsedTime / 1000).toFixed(1)}s`);
+  if (stats.totalGenerated < options.population) {
+    console.warn(`Kept only ${stats.totalGenerated}/${options.population} persons after ${stats.attempts} attempts`);
+  } else if (stats.attempts > stats.totalGenerated) {
+    console.log(`Kept ${stats.totalGenerated} of ${stats.attempts} simulated persons`);
+  }
+  
+  return 0;
+}
+
+// Combine command line values with configuration into generator options
+export function buildGeneratorOptions(
+  values: Record<string, string | string[] | boolean | undefined>,
+  config: Config,
+  positionals: string[] = []
+): GeneratorOptions {
+  const option = (name: string): string | undefined => {
+    const value = values[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+  
+  const population = parseInteger('population', option('population')) ??
+    config.getNumber('generator.population', 1);
+  const seed = parseInteger('seed', option('seed')) ??
+    (config.get('generator.seed') !== undefined ? config.getNumber('generator.seed') : undefined);
+  const workers = parseInteger('workers', option('workers')) ??
+    config.getNumber('generator.workers', 1);
+  
+  const format = option('format') || config.getString('exporter.format', 'fhir');
+  if (!EXPORT_FORMATS.includes(format as any)) {
+    throw new CliError(`Unknown format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  
+  const fhirVersion = parseFHIRVersion(option('fhir-version') || config.getString('exporter.fhir_version', 'R4'));
+  
+  const referenceDate = option('reference-date') || config.get('generator.reference_date');
+  
+  // Positional arguments are the state and city, as in Synthea
+  if (positionals.length > 2) {
+    throw new CliError(`Unexpected argument: ${positionals[2]} (expected [state] [city])`);
+  }
+  const state = positionals[0] || config.getString('generator.state') || undefined;
+  const city = positionals[1] || config.getString('generator.city') || undefined;
+  const demographicsDirectory = option('demographics') || config.getString('demographics.path') || undefined;
+  if (state && !demographicsDirectory) {
+    throw new CliError('Generating for a state or city requires --demographics <dir>');
+  }
+  
+  const ages = option('age') !== undefined ? parseAgeRange(option('age')!) : {
+    min: config.get('generator.min_age') !== undefined ? config.getNumber('generator.min_age') : undefined,
+    max: config.get('generator.max_age') !== undefined ? config.getNumber('generator.max_age') : undefined
+  };
+  
+  const gender = (option('gender') || config.getString('generator.gender')).toUpperCase() || undefined;
+  if (gender && gender !== 'M' && gender !== 'F') {
+    throw new CliError(`--gender must be M or F, got: ${gender}`);
+  }
+  
+  const keepConditions = Array.isArray(values['keep-condition'])
+    ? values['keep-condition']
+    : config.getArray('generator.keep_conditions').map(String);
+  const maxAttempts = parseInteger('max-attempts', option('max-attempts')) ??
+    (config.get('generator.max_attempts') !== undefined ? config.getNumber('generator.max_attempts') : undefined);
+  
+  return {
+    population,
+    seed,
+    parallelWorkers: workers,
+    modules: [option('modules') || config.getString('modules.path', './modules')],
+    providersDirectory: option('providers') || config.getString('providers.path') || undefined,
+    demographicsDirectory,
+    state,
+    city,
+    minAge: ages.min,
+    maxAge: ages.max,
+    gender: gender as GeneratorOptions['gender'],
+    keepConditions: keepConditions.length > 0 ? keepConditions : undefined,
+    maxAttempts,
+    exportFormat: format as GeneratorOptions['exportFormat'],
+    outputDirectory: option('out') || config.getString('exporter.output', './output'),
+    bulkData: values.bulk === true || config.getBoolean('exporter.bulk_data'),
+    fhirVersion,
+    referenceTime: referenceDate ? parseDate(referenceDate) : Date.now()
+  };
+}
+
+function parseInteger(name: string, value?: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  
+  if (!/^\d+$/.test(value)) {
+    throw new CliError(`--${name} must be a non-negative integer, got: ${value}`);
+  }
+  
+  return parseInt(value, 10);
+}
+
+// Parse an age range like 30-40 (in years)
+function parseAgeRange(value: string): { min: number; max: number } {
+  const match = /^(\d+)-(\d+)$/.exec(value);
+  if (!match || +match[1]! > +match[2]!) {
+    throw new CliError(`--age must be a range like 30-40, got: ${value}`);
+  }
+  
+  return { min: +match[1]!, max: +match[2]! };
+}
+
+function parseFHIRVersion(value: string): FHIRVersion {
+  const version = value.toUpperCase();
+  if (!FHIR_VERSIONS.includes(version as FHIRVersion)) {
+    throw new CliError(`Unknown FHIR version: ${value} (expected ${FHIR_VERSIONS.join(', ')})`);
+  }
+  
+  return version as FHIRVersion;
+}
+
+// Parse a YYYY-MM-DD date as the end of that day (UTC)
+function parseDate(value: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const time = match ? Date.UTC(+match[1]!, +match[2]! - 1, +match[3]!, 23, 59, 59) : NaN;
+  
+  if (isNaN(time)) {
+    throw new CliError(`--reference-date must be a date like 2025-01-01, got: ${value}`);
+  }
+  
+  return time;
+}
+
+async function loadModules(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      modules: { type: 'string', short: 'm' }
+    }
+  });
+  
+  registerAllStates();
+  
+  const loader = new ModuleLoader();
+  return loader.validateAllModules(values.modules || './modules');
+}
+
+async function validate(args: string[]): Promise<number> {
+  const modules = await loadModules(args);
+  let invalid = 0;
+  
+  for (const [key, result] of modules) {
+    if (result.errors.length > 0) {
+      invalid++;
+      console.log(`✗ ${key}`);
+      for (const error of result.errors) {
+        console.log(`    ${error}`);
+      }
+    } else {
+      console.log(`✓ ${key}`);
+    }
+  }
+  
+  console.log(`\n${modules.size - invalid}/${modules.size} modules valid`);
+  
+  return invalid > 0 ? 1 : 0;
+}
+
+async function listModules(args: string[]): Promise<number> {
+  const modules = await loadModules(args);
+  const keys = Array.from(modules.keys()).sort();
+  
+  for (const key of keys) {
+    const result = modules.get(key)!;
+    const states = Object.keys(result.module.states).length;
+    const kind = result.submodule ? ' (submodule)' : '';
+    const invalid = result.errors.length > 0 ? ` [${result.errors.length} errors]` : '';
+    console.log(`${key}${kind} - ${result.module.name}, ${states} states${invalid}`);
+  }
+  
+  return 0;
+}
+
+async function exportPersons(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      bulk: { type: 'boolean' },
+      'fhir-version': { type: 'string' }
+    }
+  });
+  
+  if (!values.from) {
+    throw new CliError('export requires --from <dir>');
+  }
+  
+  const format = values.format || 'fhir';
+  if (!EXPORT_FORMATS.includes(format as any)) {
+    throw new CliError(`Unknown format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  
+  const outputDirectory = values.out || './output';
+  await mkdir(outputDirectory, { recursive: true });
+  
+  const fhirVersion = parseFHIRVersion(values['fhir-version'] || 'R4');
+  const persons = await new FileBasedPersonStorage(values.from).getAll();
+  
+  if (format === 'csv') {
+    await new CSVExporter(outputDirectory).exportPersons(persons);
+    console.log(`Exported ${persons.length} persons as CSV to ${outputDirectory}`);
+    return 0;
+  }
+  
+  if (format === 'fhir' && values.bulk) {
+    const exporter = new FHIRBulkExporter(outputDirectory, { exporter: createFHIRExporter(fhirVersion) });
+    await exporter.exportPersons(persons);
+    const manifest = await exporter.finish();
+    console.log(`Exported ${persons.length} persons as FHIR Bulk Data ` +
+      `(${manifest.output.length} resource types) to ${outputDirectory}`);
+    return 0;
+  }
+  
+  const exporter = format === 'json' ? new JSONExporter() : createFHIRExporter(fhirVersion);
+  
+  for (const person of persons) {
+    await exporter.exportToFile(person, `${outputDirectory}/${person.id}.json`);
+  }
+  
+  console.log(`Exported ${persons.length} ${format === 'json' ? 'JSON records' : 'FHIR bundles'} to ${outputDirectory}`);
+  
+  return 0;
+}
+
+if (import.meta.main) {
+  process.exit(await runCli(process.argv.slice(2)));
+}
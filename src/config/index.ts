@@ -1 +1,2 @@
-export { Config, ConfigOptions, getConfig, initConfig } from './config.ts';
\ No newline at end of file
+export { Config, getConfig, initConfig } from './config.ts';
+export type { ConfigOptions } from './config.ts';
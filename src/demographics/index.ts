@@ -0,0 +1,271 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Random } from '../utils/random.ts';
+import { parseCSV } from '../utils/csv.ts';
+
+// Files of a demographics directory. The ZIP code file is optional.
+export const DEMOGRAPHICS_FILE = 'demographics.csv';
+export const ZIP_CODES_FILE = 'zipcodes.csv';
+
+// Race columns of the demographics file
+const RACE_COLUMNS: Record<string, string> = {
+  WHITE: 'White',
+  BLACK: 'Black or African American',
+  ASIAN: 'Asian',
+  NATIVE: 'American Indian or Alaska Native',
+  PACIFIC: 'Native Hawaiian or Other Pacific Islander',
+  OTHER: 'Other'
+};
+
+// Income columns and the socioeconomic scores of their categories (see
+// PersonFactory)
+const INCOME_COLUMNS: Record<string, { category: string; low: number; high: number }> = {
+  INCOME_LOW: { category: 'Low', low: 0, high: 0.25 },
+  INCOME_MIDDLE: { category: 'Middle', low: 0.25, high: 0.66 },
+  INCOME_HIGH: { category: 'High', low: 0.66, high: 1 }
+};
+
+// Homes are placed up to this far (in degrees, about 1 km) from the center
+// of their ZIP code
+const JITTER_DEGREES = 0.01;
+
+export const STATE_ABBREVIATIONS: Record<string, string> = {
+  'Alabama': 'AL', 'Alaska': 'AK', 'Arizona': 'AZ', 'Arkansas': 'AR', 'California': 'CA',
+  'Colorado': 'CO', 'Connecticut': 'CT', 'Delaware': 'DE', 'District of Columbia': 'DC',
+  'Florida': 'FL', 'Georgia': 'GA', 'Hawaii': 'HI', 'Idaho': 'ID', 'Illinois': 'IL',
+  'Indiana': 'IN', 'Iowa': 'IA', 'Kansas': 'KS', 'Kentucky': 'KY', 'Louisiana': 'LA',
+  'Maine': 'ME', 'Maryland': 'MD', 'Massachusetts': 'MA', 'Michigan': 'MI', 'Minnesota': 'MN',
+  'Mississippi': 'MS', 'Missouri': 'MO', 'Montana': 'MT', 'Nebraska': 'NE', 'Nevada': 'NV',
+  'New Hampshire': 'NH', 'New Jersey': 'NJ', 'New Mexico': 'NM', 'New York': 'NY',
+  'North Carolina': 'NC', 'North Dakota': 'ND', 'Ohio': 'OH', 'Oklahoma': 'OK', 'Oregon': 'OR',
+  'Pennsylvania': 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC', 'South Dakota': 'SD',
+  'Tennessee': 'TN', 'Texas': 'TX', 'Utah': 'UT', 'Vermont': 'VT', 'Virginia': 'VA',
+  'Washington': 'WA', 'West Virginia': 'WV', 'Wisconsin': 'WI', 'Wyoming': 'WY'
+};
+
+// Distributions are weights (fractions of the population in the file). A
+// missing distribution leaves the choice to the person factory.
+export interface CityDemographics {
+  state: string;
+  city: string;
+  population: number;
+  gender: Record<string, number>;
+  race: Record<string, number>;
+  ethnicity: Record<string, number>;
+  ages: Array<{ low: number; high: number; weight: number }>;
+  income: Record<string, number>;
+}
+
+export interface ZipCode {
+  state: string;
+  city: string;
+  zip: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+// Where a person lives and the demographics drawn for them
+export interface DemographicsSample {
+  city: string;
+  state: string; // Abbreviation
+  zip?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  gender?: 'M' | 'F';
+  ageRange?: { low: number; high: number };
+  race?: string;
+  ethnicity?: string;
+  socioeconomicCategory?: string;
+  socioeconomicScore?: number;
+}
+
+// Index picked by weight, or undefined when no weight is positive
+function weightedIndex(random: Random, weights: number[]): number | undefined {
+  const total = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total <= 0) {
+    return undefined;
+  }
+  
+  let draw = random.random() * total;
+  let last = 0;
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i]! <= 0) {
+      continue;
+    }
+    draw -= weights[i]!;
+    last = i;
+    if (draw < 0) {
+      break;
+    }
+  }
+  return last;
+}
+
+function weightedChoice(random: Random, weights: Record<string, number>): string | undefined {
+  const keys = Object.keys(weights);
+  const index = weightedIndex(random, keys.map(key => weights[key]!));
+  return index === undefined ? undefined : keys[index];
+}
+
+function number(value: string | undefined): number {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+// Read a row of the demographics file. Distribution columns are fractions
+// of the city population; age groups are columns named `<low>..<high>`.
+function readCity(row: Record<string, string>): CityDemographics {
+  const city: CityDemographics = {
+    state: (row.STNAME || '').trim(),
+    city: (row.NAME || '').trim(),
+    population: number(row.TOT_POP),
+    gender: { M: number(row.TOT_MALE), F: number(row.TOT_FEMALE) },
+    race: {},
+    ethnicity: {},
+    ages: [],
+    income: {}
+  };
+  
+  for (const [column, race] of Object.entries(RACE_COLUMNS)) {
+    city.race[race] = number(row[column]);
+  }
+  
+  if (row.HISPANIC !== undefined && row.HISPANIC !== '') {
+    const hispanic = number(row.HISPANIC);
+    city.ethnicity = { 'Hispanic or Latino': hispanic, 'Not Hispanic or Latino': 1 - hispanic };
+  }
+  
+  for (const [column, value] of Object.entries(row)) {
+    const ages = /^(\d+)\.\.(\d+)$/.exec(column.trim());
+    if (ages) {
+      city.ages.push({ low: Number(ages[1]), high: Number(ages[2]), weight: number(value) });
+    }
+  }
+  
+  for (const [column, income] of Object.entries(INCOME_COLUMNS)) {
+    city.income[income.category] = number(row[column]);
+  }
+  
+  return city;
+}
+
+function readZipCode(row: Record<string, string>): ZipCode | undefined {
+  const latitude = parseFloat(row.LAT || '');
+  const longitude = parseFloat(row.LON || '');
+  if (!row.ZCTA5 || isNaN(latitude) || isNaN(longitude)) {
+    return undefined;
+  }
+  
+  return {
+    state: (row.ST || row.USPS || '').trim(),
+    city: (row.NAME || '').trim(),
+    zip: row.ZCTA5.trim().padStart(5, '0'),
+    coordinates: { latitude, longitude }
+  };
+}
+
+// Census-style demographics of a set of cities. Persons are placed in a city
+// with probability proportional to its population, and their gender, age,
+// race, ethnicity and income are drawn from the city's distributions.
+export class Demographics {
+  constructor(
+    private cities: CityDemographics[],
+    private zipCodes: ZipCode[] = []
+  ) {}
+  
+  // Load demographics.csv and (when present) zipcodes.csv from a directory
+  static async load(directory: string): Promise<Demographics> {
+    const cities = parseCSV(await readFile(join(directory, DEMOGRAPHICS_FILE), 'utf-8'))
+      .map(readCity)
+      .filter(city => city.state && city.city);
+    if (cities.length === 0) {
+      throw new Error(`No demographics found in ${directory}`);
+    }
+    
+    let zipCodes: ZipCode[] = [];
+    try {
+      zipCodes = parseCSV(await readFile(join(directory, ZIP_CODES_FILE), 'utf-8'))
+        .map(readZipCode)
+        .filter((zipCode): zipCode is ZipCode => zipCode !== undefined);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    return new Demographics(cities, zipCodes);
+  }
+  
+  getCities(): CityDemographics[] {
+    return this.cities;
+  }
+  
+  // Demographics of a state, or of a city in it. States are matched by name
+  // or abbreviation, both case-insensitively.
+  select(state?: string, city?: string): Demographics {
+    if (!state) {
+      return this;
+    }
+    
+    const matches = (name: string, value: string) => name.toLowerCase() === value.toLowerCase();
+    const cities = this.cities.filter(c =>
+      (matches(c.state, state) || matches(STATE_ABBREVIATIONS[c.state] || '', state)) &&
+      (!city || matches(c.city, city))
+    );
+    
+    if (cities.length === 0) {
+      throw new Error(city ? `No demographics for ${city}, ${state}` : `No demographics for ${state}`);
+    }
+    
+    return new Demographics(cities, this.zipCodes);
+  }
+  
+  // Draw where a person lives and their demographics
+  sample(random: Random): DemographicsSample {
+    const cityIndex = weightedIndex(random, this.cities.map(city => city.population));
+    const city = this.cities[cityIndex ?? random.randomInt(0, this.cities.length)]!;
+    
+    const sample: DemographicsSample = {
+      city: city.city,
+      state: STATE_ABBREVIATIONS[city.state] || city.state
+    };
+    
+    // A random ZIP code of the city, and a home near its center
+    const zipCodes = this.zipCodes.filter(zipCode =>
+      zipCode.city.toLowerCase() === city.city.toLowerCase() &&
+      (zipCode.state === city.state || zipCode.state === sample.state)
+    );
+    const zipCode = random.choice(zipCodes);
+    if (zipCode) {
+      sample.zip = zipCode.zip;
+      sample.coordinates = {
+        latitude: zipCode.coordinates.latitude + (random.random() * 2 - 1) * JITTER_DEGREES,
+        longitude: zipCode.coordinates.longitude + (random.random() * 2 - 1) * JITTER_DEGREES
+      };
+    }
+    
+    sample.gender = weightedChoice(random, city.gender) as DemographicsSample['gender'];
+    
+    const ageGroup = weightedIndex(random, city.ages.map(group => group.weight));
+    if (ageGroup !== undefined) {
+      const { low, high } = city.ages[ageGroup]!;
+      sample.ageRange = { low, high };
+    }
+    
+    sample.race = weightedChoice(random, city.race);
+    sample.ethnicity = weightedChoice(random, city.ethnicity);
+    
+    const category = weightedChoice(random, city.income);
+    const income = Object.values(INCOME_COLUMNS).find(income => income.category === category);
+    if (income) {
+      sample.socioeconomicCategory = income.category;
+      sample.socioeconomicScore = income.low + random.random() * (income.high - income.low);
+    }
+    
+    return sample;
+  }
+}
@@ -1,10 +1,15 @@
-import { ConditionDefinition, Person, CodeableConcept } from '../types/index.ts';
+import { ConditionDefinition, Person, CodeableConcept, Condition, Entry, Module } from '../types/index.ts';
+import { getVitalSign } from './vital-signs.ts';
+import { getModuleContext } from './module-engine.ts';
+import { convertToMs } from '../utils/time.ts';
 
-// Condition evaluation function
+// Condition evaluation function. The module is that of the state being
+// evaluated; PriorState conditions need it to look up the state history.
 export function evaluateCondition(
   condition: ConditionDefinition,
   person: Person,
-  time: number
+  time: number,
+  module?: Module
 ): boolean {
   const conditionType = condition.condition_type;
   
@@ -15,6 +20,18 @@ export function evaluateCondition(
     case 'Gender':
       return evaluateGenderCondition(condition, person);
     
+    case 'Race':
+      return evaluateRaceCondition(condition, person);
+    
+    case 'Socioeconomic Status':
+      return evaluateSocioeconomicStatusCondition(condition, person);
+    
+    case 'Date':
+      return evaluateDateCondition(condition, time);
+    
+    case 'PriorState':
+      return evaluatePriorStateCondition(condition, person, time, module);
+    
     case 'Attribute':
       return evaluateAttributeCondition(condition, person);
     
@@ -24,20 +41,35 @@ export function evaluateCondition(
     case 'Observation':
       return evaluateObservationCondition(condition, person);
     
+    case 'Vital Sign':
+      return evaluateVitalSignCondition(condition, person);
+    
     case 'Active Condition':
       return evaluateActiveCondition(condition, person, time);
     
     case 'Active Medication':
-      return evaluateActiveMedication(condition, person, time);
+      return hasActiveEntry(condition, person, person.record.medications, time);
+    
+    case 'Active Care Plan':
+      return hasActiveEntry(condition, person, person.record.carePlans, time);
+    
+    case 'Active Allergy':
+      return hasActiveEntry(condition, person, person.record.allergies, time);
     
     case 'And':
-      return evaluateAndCondition(condition, person, time);
+      return evaluateAndCondition(condition, person, time, module);
     
     case 'Or':
-      return evaluateOrCondition(condition, person, time);
+      return evaluateOrCondition(condition, person, time, module);
     
     case 'Not':
-      return evaluateNotCondition(condition, person, time);
+      return evaluateNotCondition(condition, person, time, module);
+    
+    case 'At Least':
+      return countMatching(condition, person, time, module) >= condition.minimum;
+    
+    case 'At Most':
+      return countMatching(condition, person, time, module) <= condition.maximum;
     
     case 'True':
       return true;
@@ -76,6 +108,111 @@ function evaluateGenderCondition(
   return person.gender === condition.gender;
 }
 
+// Synthea race names mapped to the person's race
+const RACE_NAMES: Record<string, string> = {
+  white: 'White',
+  black: 'Black or African American',
+  asian: 'Asian',
+  native: 'American Indian or Alaska Native',
+  hawaiian: 'Native Hawaiian or Other Pacific Islander',
+  other: 'Other'
+};
+
+// Race condition evaluation
+function evaluateRaceCondition(
+  condition: ConditionDefinition,
+  person: Person
+): boolean {
+  const race = String(condition.race).toLowerCase();
+  
+  // Synthea treats Hispanic as a race; here it is the ethnicity
+  if (race === 'hispanic') {
+    return person.ethnicity === 'Hispanic or Latino';
+  }
+  
+  const expected = RACE_NAMES[race] || condition.race;
+  return person.race.toLowerCase() === expected.toLowerCase();
+}
+
+// Socioeconomic status condition evaluation (High, Middle or Low)
+function evaluateSocioeconomicStatusCondition(
+  condition: ConditionDefinition,
+  person: Person
+): boolean {
+  return person.attributes.get('socioeconomic_category') === condition.category;
+}
+
+// Date condition evaluation. Compares the simulation time against a year,
+// a month (1-12, any year) or a full date.
+function evaluateDateCondition(
+  condition: ConditionDefinition,
+  time: number
+): boolean {
+  const now = new Date(time);
+  
+  if (condition.year !== undefined) {
+    return evaluateNumericCondition(now.getUTCFullYear(), condition.operator, condition.year);
+  }
+  
+  if (condition.month !== undefined) {
+    return evaluateNumericCondition(now.getUTCMonth() + 1, condition.operator, condition.month);
+  }
+  
+  if (condition.date) {
+    const date = condition.date;
+    const target = Date.UTC(
+      date.year,
+      (date.month || 1) - 1,
+      date.day || 1,
+      date.hour || 0,
+      date.minute || 0,
+      date.second || 0,
+      date.millisecond || 0
+    );
+    return evaluateNumericCondition(time, condition.operator, target);
+  }
+  
+  throw new Error('Date condition requires year, month or date');
+}
+
+// Prior state condition evaluation. True if the named state was visited,
+// optionally only since the last visit to the `since` state and/or only
+// within the given duration.
+function evaluatePriorStateCondition(
+  condition: ConditionDefinition,
+  person: Person,
+  time: number,
+  module?: Module
+): boolean {
+  if (!module) {
+    return false;
+  }
+  
+  const visits = getModuleContext(person, module)?.visits || [];
+  const earliest = condition.within
+    ? time - convertToMs(condition.within.quantity, condition.within.unit)
+    : undefined;
+  
+  // Walk back from the most recent visit
+  for (let i = visits.length - 1; i >= 0; i--) {
+    const visit = visits[i]!;
+    
+    if (earliest !== undefined && visit.exited < earliest) {
+      return false;
+    }
+    
+    if (visit.name === condition.name) {
+      return true;
+    }
+    
+    if (condition.since && visit.name === condition.since) {
+      return false;
+    }
+  }
+  
+  return false;
+}
+
 // Attribute condition evaluation
 function evaluateAttributeCondition(
   condition: ConditionDefinition,
@@ -121,30 +258,59 @@ function evaluateObservationCondition(
   return evaluateNumericCondition(latestValue, condition.operator, condition.value);
 }
 
+// Vital sign condition evaluation
+function evaluateVitalSignCondition(
+  condition: ConditionDefinition,
+  person: Person
+): boolean {
+  const vitalSignValue = getVitalSign(person, condition.vital_sign);
+  return evaluateNumericCondition(vitalSignValue, condition.operator, condition.value);
+}
+
 // Active condition evaluation
 function evaluateActiveCondition(
   condition: ConditionDefinition,
   person: Person,
   time: number
 ): boolean {
-  return person.record.conditions.some(cond => 
-    codesMatch(cond.codes, condition.codes) &&
+  // A condition is active from onset until a ConditionEnd resolves it
+  const isActive = (cond: Condition) =>
     cond.clinicalStatus === 'active' &&
     cond.startTime <= time &&
-    (!cond.endTime || cond.endTime > time)
+    (!cond.endTime || cond.endTime > time);
+  
+  // Conditions can also be referenced by the attribute they were assigned to
+  if (condition.referenced_by_attribute) {
+    const referenced = person.attributes.get(condition.referenced_by_attribute);
+    return person.record.conditions.some(cond =>
+      cond.id === referenced?.id && isActive(cond)
+    );
+  }
+  
+  return person.record.conditions.some(cond => 
+    codesMatch(cond.codes, condition.codes) && isActive(cond)
   );
 }
 
-// Active medication evaluation
-function evaluateActiveMedication(
+// Active medication, care plan or allergy evaluation. Entries are active
+// from their start until they are ended.
+function hasActiveEntry(
   condition: ConditionDefinition,
   person: Person,
+  entries: Entry[],
   time: number
 ): boolean {
-  return person.record.medications.some(med =>
-    codesMatch(med.codes, condition.codes) &&
-    med.startTime <= time &&
-    (!med.endTime || med.endTime > time)
+  const isActive = (entry: Entry) =>
+    entry.startTime <= time &&
+    (!entry.endTime || entry.endTime > time);
+  
+  if (condition.referenced_by_attribute) {
+    const referenced = person.attributes.get(condition.referenced_by_attribute);
+    return entries.some(entry => entry.id === referenced?.id && isActive(entry));
+  }
+  
+  return entries.some(entry =>
+    codesMatch(entry.codes, condition.codes) && isActive(entry)
   );
 }
 
@@ -152,29 +318,44 @@ function evaluateActiveMedication(
 function evaluateAndCondition(
   condition: ConditionDefinition,
   person: Person,
-  time: number
+  time: number,
+  module?: Module
 ): boolean {
   return condition.conditions.every((subCondition: ConditionDefinition) =>
-    evaluateCondition(subCondition, person, time)
+    evaluateCondition(subCondition, person, time, module)
   );
 }
 
 function evaluateOrCondition(
   condition: ConditionDefinition,
   person: Person,
-  time: number
+  time: number,
+  module?: Module
 ): boolean {
   return condition.conditions.some((subCondition: ConditionDefinition) =>
-    evaluateCondition(subCondition, person, time)
+    evaluateCondition(subCondition, person, time, module)
   );
 }
 
 function evaluateNotCondition(
   condition: ConditionDefinition,
   person: Person,
-  time: number
+  time: number,
+  module?: Module
 ): boolean {
-  return !evaluateCondition(condition.condition, person, time);
+  return !evaluateCondition(condition.condition, person, time, module);
+}
+
+// Number of sub-conditions that hold, for At Least / At Most
+function countMatching(
+  condition: ConditionDefinition,
+  person: Person,
+  time: number,
+  module?: Module
+): number {
+  return condition.conditions.filter((subCondition: ConditionDefinition) =>
+    evaluateCondition(subCondition, person, time, module)
+  ).length;
 }
 
 // Helper functions
@@ -227,7 +408,7 @@ function convertToYears(quantity: number, unit: string): number {
   }
 }
 
-function codesMatch(codes1: CodeableConcept, codes2: any[]): boolean {
+export function codesMatch(codes1: CodeableConcept, codes2: any[]): boolean {
   if (!codes1 || !codes2) {
     return false;
   }
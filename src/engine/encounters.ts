@@ -0,0 +1,90 @@
+import { Person, Encounter, Entry, CodeableConcept } from '../types/index.ts';
+import { convertToMs } from '../utils/time.ts';
+
+// Ages (in months) of routine checkups: the AAP well child schedule up to
+// age 2, then yearly to 19, every 3 years to 39, every 2 years to 49 and
+// yearly after that
+function buildCheckupSchedule(): number[] {
+  const months = [0, 1, 2, 4, 6, 9, 12, 15, 18, 24, 30];
+  
+  for (let age = 3; age <= 19; age++) months.push(age * 12);
+  for (let age = 20; age <= 39; age += 3) months.push(age * 12);
+  for (let age = 40; age <= 49; age += 2) months.push(age * 12);
+  for (let age = 50; age <= 120; age++) months.push(age * 12);
+  
+  return months;
+}
+
+export const CHECKUP_SCHEDULE_MONTHS = buildCheckupSchedule();
+
+// Time of the most recent scheduled checkup at or before the given time
+export function lastScheduledCheckup(person: Person, time: number): number | undefined {
+  const birth = person.birthDate.getTime();
+  const monthMs = convertToMs(1, 'months');
+  let last: number | undefined;
+  
+  for (const months of CHECKUP_SCHEDULE_MONTHS) {
+    const checkup = birth + months * monthMs;
+    if (checkup > time) break;
+    last = checkup;
+  }
+  
+  return last;
+}
+
+// The person's most recent wellness encounter
+export function lastWellnessEncounter(person: Person): Encounter | undefined {
+  const encounters = person.record.encounters;
+  for (let i = encounters.length - 1; i >= 0; i--) {
+    if (encounters[i]!.encounterClass === 'wellness') {
+      return encounters[i];
+    }
+  }
+  return undefined;
+}
+
+// A checkup is due when the latest scheduled one has not been attended yet
+export function isWellnessDue(person: Person, time: number): boolean {
+  const checkup = lastScheduledCheckup(person, time);
+  if (checkup === undefined) {
+    return false;
+  }
+  
+  const last = lastWellnessEncounter(person);
+  return !last || last.startTime < checkup;
+}
+
+// Encounter classes that stay open across timesteps until an EncounterEnd
+const LONG_STAY_CLASSES: Encounter['encounterClass'][] = ['inpatient', 'snf', 'hospice'];
+
+export function isLongStay(encounter: Encounter): boolean {
+  return LONG_STAY_CLASSES.includes(encounter.encounterClass);
+}
+
+// Close an encounter, and stop it being the person's current encounter
+export function endEncounter(
+  person: Person,
+  encounter: Encounter,
+  time: number,
+  discharge?: CodeableConcept
+): void {
+  if (!encounter.endTime) {
+    encounter.endTime = time;
+  }
+  
+  if (discharge) {
+    encounter.discharge = discharge;
+  }
+  
+  if (person.attributes.get('current_encounter')?.id === encounter.id) {
+    person.attributes.delete('current_encounter');
+  }
+}
+
+// Record an entry as part of the person's current encounter, if any
+export function attachToEncounter(person: Person, entry: Entry): void {
+  const encounter = person.attributes.get('current_encounter');
+  if (encounter) {
+    entry.encounter = encounter.id;
+  }
+}
@@ -0,0 +1,79 @@
+import { Module, Person, Entry, CodeableConcept } from '../types/index.ts';
+import { getModuleContext } from './module-engine.ts';
+import { codesMatch } from './condition.ts';
+
+// How an *End state refers to the entry it ends
+export interface EntryReference {
+  codes?: any[];
+  stateName?: string;
+  attribute?: string;
+}
+
+// Find the entry recorded by a named state of a module (e.g. the condition
+// created by a ConditionOnset state) for this person
+export function findStateEntry(
+  person: Person,
+  module: Module,
+  stateName: string
+): Entry | undefined {
+  const context = getModuleContext(person, module);
+  return context?.states.get(stateName)?.entry;
+}
+
+// Find an entry previously stored in an attribute via assign_to_attribute
+export function findAttributeEntry(person: Person, attribute: string): Entry | undefined {
+  const value = person.attributes.get(attribute);
+  
+  if (value && typeof value === 'object' && 'codes' in value) {
+    return value as Entry;
+  }
+  
+  return undefined;
+}
+
+// Resolve a `reason` (an attribute name or a state name in the module) to
+// the codes of the entry it refers to
+export function resolveReason(
+  person: Person,
+  module: Module,
+  reason?: string
+): CodeableConcept | undefined {
+  if (!reason) {
+    return undefined;
+  }
+  
+  const entry = findAttributeEntry(person, reason) || findStateEntry(person, module, reason);
+  return entry?.codes;
+}
+
+// Find the still-running entry of a record list that a reference points at.
+// Code references match the most recently started entry.
+export function findActiveEntry<T extends Entry>(
+  person: Person,
+  module: Module,
+  entries: T[],
+  reference: EntryReference,
+  time: number
+): T | undefined {
+  let target: Entry | undefined;
+  
+  if (reference.stateName) {
+    target = findStateEntry(person, module, reference.stateName);
+  } else if (reference.attribute) {
+    target = findAttributeEntry(person, reference.attribute);
+  }
+  
+  const isActive = (entry: T) => !entry.endTime || entry.endTime > time;
+  
+  if (target) {
+    return entries.find(entry => entry.id === target!.id && isActive(entry));
+  }
+  
+  if (reference.codes) {
+    return entries
+      .filter(entry => isActive(entry) && codesMatch(entry.codes, reference.codes!))
+      .sort((a, b) => b.startTime - a.startTime)[0];
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,186 @@
+import { Person, Immunization, Coding } from '../types/index.ts';
+import { attachToEncounter } from './encounters.ts';
+import { convertToMs } from '../utils/time.ts';
+import { Random } from '../utils/random.ts';
+import { generateUUID } from '../utils/uuid.ts';
+
+// A vaccine series in the schedule. Doses are due at the listed ages; a
+// series with `repeat_months` keeps recurring after the last listed dose.
+// Doses are not given past `until_months` (no late catch-up).
+export interface ScheduledVaccine {
+  code: Coding;
+  at_months: number[];
+  repeat_months?: number;
+  until_months?: number;
+  dose?: { value: number; unit: string };
+}
+
+const DEFAULT_DOSE = { value: 0.5, unit: 'mL' };
+
+function cvx(code: string, display: string): Coding {
+  return { system: 'CVX', code, display };
+}
+
+// Routine schedule following the CDC child/adolescent and adult schedules
+export const IMMUNIZATION_SCHEDULE: Record<string, ScheduledVaccine> = {
+  hepb_child: {
+    code: cvx('08', 'Hep B, adolescent or pediatric'),
+    at_months: [0, 1, 6],
+    until_months: 216
+  },
+  rv_mono: {
+    code: cvx('119', 'rotavirus, monovalent'),
+    at_months: [2, 4],
+    until_months: 8
+  },
+  dtap: {
+    code: cvx('20', 'DTaP'),
+    at_months: [2, 4, 6, 15, 48],
+    until_months: 84
+  },
+  hib: {
+    code: cvx('49', 'Hib (PRP-OMP)'),
+    at_months: [2, 4, 12],
+    until_months: 60
+  },
+  pcv13: {
+    code: cvx('133', 'Pneumococcal conjugate PCV 13'),
+    at_months: [2, 4, 6, 12],
+    until_months: 60
+  },
+  ipv: {
+    code: cvx('10', 'IPV'),
+    at_months: [2, 4, 6, 48],
+    until_months: 216
+  },
+  flu: {
+    code: cvx('140', 'Influenza, seasonal, injectable, preservative free'),
+    at_months: [6],
+    repeat_months: 12
+  },
+  mmr: {
+    code: cvx('03', 'MMR'),
+    at_months: [12, 48],
+    until_months: 216
+  },
+  var: {
+    code: cvx('21', 'varicella'),
+    at_months: [12, 48],
+    until_months: 216
+  },
+  hepa_ped_adol: {
+    code: cvx('83', 'Hep A, ped/adol, 2 dose'),
+    at_months: [12, 18],
+    until_months: 216
+  },
+  tdap: {
+    code: cvx('115', 'Tdap'),
+    at_months: [132],
+    until_months: 216
+  },
+  hpv: {
+    code: cvx('62', 'HPV, quadrivalent'),
+    at_months: [132, 138],
+    until_months: 312
+  },
+  meningococcal: {
+    code: cvx('114', 'meningococcal MCV4P'),
+    at_months: [132, 192],
+    until_months: 264
+  },
+  td: {
+    code: cvx('113', 'Td (adult) preservative free'),
+    at_months: [228],
+    repeat_months: 120
+  },
+  zoster: {
+    code: cvx('187', 'zoster recombinant'),
+    at_months: [600, 602]
+  },
+  ppsv23: {
+    code: cvx('33', 'pneumococcal polysaccharide vaccine, 23 valent'),
+    at_months: [780]
+  }
+};
+
+// Doses of a series already in the person's record
+export function getSeriesHistory(person: Person, series: string): Immunization[] {
+  return person.record.immunizations.filter(i => i.series === series);
+}
+
+// Add an immunization to the person's record, attached to the current
+// encounter if there is one
+export function recordImmunization(
+  person: Person,
+  time: number,
+  series: string,
+  codes: Coding[],
+  dose?: { value: number; unit: string }
+): Immunization {
+  const immunization: Immunization = {
+    id: generateUUID(Random.fromPerson(person)),
+    type: 'Immunization',
+    startTime: time,
+    endTime: time,
+    codes: {
+      coding: codes,
+      text: codes[0]?.display || 'Immunization'
+    },
+    series,
+    doseNumber: getSeriesHistory(person, series).length + 1,
+    doseQuantity: dose
+  };
+  
+  attachToEncounter(person, immunization);
+  
+  person.record.immunizations.push(immunization);
+  return immunization;
+}
+
+// Whether the next dose of a series is due at the given time
+export function isImmunizationDue(
+  person: Person,
+  series: string,
+  vaccine: ScheduledVaccine,
+  time: number
+): boolean {
+  const monthMs = convertToMs(1, 'months');
+  const ageInMonths = (time - person.birthDate.getTime()) / monthMs;
+  
+  if (vaccine.until_months !== undefined && ageInMonths > vaccine.until_months) {
+    return false;
+  }
+  
+  const history = getSeriesHistory(person, series);
+  
+  if (history.length < vaccine.at_months.length) {
+    return ageInMonths >= vaccine.at_months[history.length]!;
+  }
+  
+  if (vaccine.repeat_months && history.length > 0) {
+    // Allow a month of slack so yearly doses line up with yearly checkups
+    const last = history[history.length - 1]!;
+    const monthsSinceLast = (time - last.startTime) / monthMs;
+    return monthsSinceLast >= vaccine.repeat_months - 1;
+  }
+  
+  return false;
+}
+
+// Give every vaccine that is due, one dose per series. Called at
+// wellness encounters.
+export function administerScheduledImmunizations(
+  person: Person,
+  time: number,
+  schedule: Record<string, ScheduledVaccine> = IMMUNIZATION_SCHEDULE
+): Immunization[] {
+  const given: Immunization[] = [];
+  
+  for (const [series, vaccine] of Object.entries(schedule)) {
+    if (isImmunizationDue(person, series, vaccine, time)) {
+      given.push(recordImmunization(person, time, series, [vaccine.code], vaccine.dose || DEFAULT_DOSE));
+    }
+  }
+  
+  return given;
+}
@@ -1,21 +1,53 @@
-import { Module, Person, StateDefinition } from '../types/index.ts';
-import { State, createState } from './state.ts';
+import { Module, Person, StateDefinition, Encounter } from '../types/index.ts';
+import { State, createState, shouldContinue } from './state.ts';
+import { endEncounter, isLongStay } from './encounters.ts';
+
+// A completed visit to a state, used by PriorState conditions
+export interface StateVisit {
+  name: string;
+  entered: number;
+  exited: number;
+}
 
 export interface ModuleContext {
   history: string[];
+  visits: StateVisit[];
   currentState?: State;
+  entered?: number; // When the current state was entered
+  encounter?: Encounter; // Open encounter started by this module
   states: Map<string, State>;
+  resolveModule?: ModuleResolver; // Modules its CallSubmodule states can run
+}
+
+// Look up a module by path key (e.g. 'medications/painkiller')
+export type ModuleResolver = (key: string) => Module | undefined;
+
+// Key under which a module's per-person context is stored in person attributes
+export function moduleContextKey(module: Module): string {
+  return `module_context_${module.contextKey || module.name}`;
+}
+
+// Whether a person attribute holds a module context
+export function isModuleContextKey(key: string): boolean {
+  return key.startsWith('module_context_');
+}
+
+// Get a person's context for a module, if the module has run for them
+export function getModuleContext(person: Person, module: Module): ModuleContext | undefined {
+  return person.attributes.get(moduleContextKey(module));
 }
 
 export class ModuleEngine {
   private module: Module;
   private states: Map<string, State>;
   private isClone: boolean = false;
+  private resolveModule?: ModuleResolver;
   
-  constructor(module: Module, isClone: boolean = false) {
+  constructor(module: Module, isClone: boolean = false, resolveModule?: ModuleResolver) {
     this.module = module;
     this.states = new Map();
     this.isClone = isClone;
+    this.resolveModule = resolveModule;
     
     // Create all states
     for (const [name, definition] of Object.entries(module.states)) {
@@ -27,21 +59,22 @@ export class ModuleEngine {
   clone(): ModuleEngine {
     // Deep clone the module
     const clonedModule = JSON.parse(JSON.stringify(this.module));
-    return new ModuleEngine(clonedModule, true);
+    return new ModuleEngine(clonedModule, true, this.resolveModule);
   }
   
   // Process module for a person at a given time
   async process(person: Person, time: number): Promise<void> {
     // Get or create module context for this person
-    const contextKey = `module_context_${this.module.name}`;
-    let context = person.attributes.get(contextKey) as ModuleContext;
+    let context = getModuleContext(person, this.module);
     
     if (!context) {
       context = {
         history: [],
-        states: new Map()
+        visits: [],
+        states: new Map(),
+        resolveModule: this.resolveModule
       };
-      person.attributes.set(contextKey, context);
+      person.attributes.set(moduleContextKey(this.module), context);
     }
     
     // Find initial state if this is the first run
@@ -52,6 +85,7 @@ export class ModuleEngine {
       }
       // When using module cloning, states don't need individual cloning
       context.currentState = this.isClone ? initialState : initialState.clone();
+      context.entered = time;
     }
     
     // Process states until we can't continue
@@ -64,28 +98,33 @@ export class ModuleEngine {
       
       const state = context.currentState!;
       
-      // Process the current state
-      const shouldContinue = await state.process(person, time);
-      
-      if (!shouldContinue) {
-        // State indicated we should stop (e.g., Guard not satisfied, Delay not complete)
+      // The module ends at its Terminal state, which is recorded on arrival
+      // and stays current so the module is not started over
+      if (state.definition.type === 'Terminal') {
+        if (!context.states.has(state.name)) {
+          this.recordVisit(context, state, time);
+        }
         break;
       }
       
-      // Record state in history
-      if (!context.history.includes(state.name)) {
-        context.history.push(state.name);
+      // Stop once the person has died (only Death states may still run)
+      if (!shouldContinue(state, person, time)) {
+        break;
       }
       
-      // Check for terminal state
-      if (state.definition.type === 'Terminal') {
-        context.currentState = undefined;
+      // Process the current state
+      const completed = await state.process(person, time);
+      
+      if (!completed) {
+        // State indicated we should stop (e.g., Guard not satisfied, Delay not complete)
         break;
       }
       
+      this.recordVisit(context, state, time);
+      
       // Get next state from transition
       if (!state.transition) {
-        // No transition defined (shouldn't happen except for Terminal)
+        // No transition defined
         break;
       }
       
@@ -103,6 +142,14 @@ export class ModuleEngine {
       
       // When using module cloning, states don't need individual cloning
       context.currentState = this.isClone ? nextState : nextState.clone();
+      context.entered = time;
+    }
+    
+    // Encounters end when the module yields, except long stays which last
+    // until an EncounterEnd
+    if (context.encounter && !isLongStay(context.encounter)) {
+      endEncounter(person, context.encounter, time);
+      context.encounter = undefined;
     }
     
     if (iterations >= maxIterations) {
@@ -110,6 +157,24 @@ export class ModuleEngine {
     }
   }
   
+  // Record a completed state in the history and visits
+  private recordVisit(context: ModuleContext, state: State, time: number): void {
+    if (!context.history.includes(state.name)) {
+      context.history.push(state.name);
+    }
+    
+    context.visits.push({ name: state.name, entered: context.entered ?? time, exited: time });
+    
+    // Keep the processed instance so other states can look up its entry
+    context.states.set(state.name, state);
+  }
+  
+  // Whether the module has reached its Terminal state for this person
+  isFinished(person: Person): boolean {
+    const context = getModuleContext(person, this.module);
+    return context?.currentState?.definition.type === 'Terminal';
+  }
+  
   // Find the Initial state
   private findInitialState(): State | undefined {
     for (const state of this.states.values()) {
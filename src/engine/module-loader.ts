@@ -3,15 +3,20 @@ import { ModuleEngine } from './module-engine.ts';
 import { ModuleSupplier, createModuleSupplier } from './module-supplier.ts';
 import { ModuleOverrideManager, getOverrideManager } from './module-overrides.ts';
 import { readdir } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
 
 export interface ModuleLoadResult {
   module: Module;
   engine: ModuleEngine;
   errors: string[];
+  // Path relative to the modules directory without extension, used by CallSubmodule
+  key?: string;
+  // Modules in subdirectories are only run when called from another module
+  submodule?: boolean;
 }
 
 export class ModuleLoader {
+  // Loaded modules by key, which CallSubmodule states resolve paths against
   private modules: Map<string, ModuleLoadResult> = new Map();
   private suppliers: Map<string, ModuleSupplier> = new Map();
   private overrideManager: ModuleOverrideManager;
@@ -26,8 +31,9 @@ export class ModuleLoader {
     this.suppliers.set(supplier.info.name, supplier);
   }
   
-  // Load a single module from a file (immediate loading for backward compatibility)
-  async loadModule(path: string): Promise<ModuleLoadResult> {
+  // Load a single module from a file (immediate loading for backward compatibility).
+  // The key defaults to the module name and marks a submodule when it has a directory part.
+  async loadModule(path: string, key?: string): Promise<ModuleLoadResult> {
     try {
       // Create supplier and immediately load
       const supplier = await createModuleSupplier(path);
@@ -38,17 +44,20 @@ export class ModuleLoader {
       // Apply overrides
       module = this.overrideManager.applyOverrides(module);
       
-      const engine = new ModuleEngine(module);
+      const engine = new ModuleEngine(module, false, key => this.modules.get(key)?.module);
       const errors = engine.validate();
       
+      const moduleKey = key || module.name;
       const result: ModuleLoadResult = {
         module,
         engine,
-        errors
+        errors,
+        key: moduleKey,
+        submodule: moduleKey.includes('/')
       };
       
       // Cache the result
-      this.modules.set(module.name, result);
+      this.modules.set(moduleKey, result);
       
       return result;
     } catch (error) {
@@ -106,7 +115,8 @@ export class ModuleLoader {
     return suppliers;
   }
   
-  // Load all modules from a directory (immediate loading for backward compatibility)
+  // Load all modules from a directory (immediate loading for backward
+  // compatibility), keyed by path
   async loadAllModules(directory: string): Promise<Map<string, ModuleLoadResult>> {
     const results = new Map<string, ModuleLoadResult>();
     
@@ -114,11 +124,12 @@ export class ModuleLoader {
       // Get all JSON files in directory and subdirectories
       const files = await this.findModuleFiles(directory);
       
-      // Load each module
+      // Load each module, keyed by its path relative to the directory
       for (const file of files) {
-        const result = await this.loadModule(file);
+        const key = relative(directory, file).replace(/\.json$/, '');
+        const result = await this.loadModule(file, key);
         if (result.errors.length === 0) {
-          results.set(result.module.name, result);
+          results.set(key, result);
         } else {
           console.warn(`Module ${file} has errors:`, result.errors);
         }
@@ -130,6 +141,19 @@ export class ModuleLoader {
     return results;
   }
   
+  // Load every module in a directory, including invalid ones, keyed by path
+  async validateAllModules(directory: string): Promise<Map<string, ModuleLoadResult>> {
+    const results = new Map<string, ModuleLoadResult>();
+    const files = await this.findModuleFiles(directory);
+    
+    for (const file of files) {
+      const key = relative(directory, file).replace(/\.json$/, '');
+      results.set(key, await this.loadModule(file, key));
+    }
+    
+    return results;
+  }
+  
   // Find all JSON files in a directory recursively
   private async findModuleFiles(directory: string): Promise<string[]> {
     const files: string[] = [];
@@ -153,9 +177,9 @@ export class ModuleLoader {
     return files;
   }
   
-  // Get a loaded module by name
-  getModule(name: string): ModuleLoadResult | undefined {
-    return this.modules.get(name);
+  // Get a loaded module by key (its path, or its name when loaded without one)
+  getModule(key: string): ModuleLoadResult | undefined {
+    return this.modules.get(key);
   }
   
   // Get all loaded modules
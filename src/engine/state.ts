@@ -24,7 +24,7 @@ export function createBaseState(
   module: Module,
   definition: StateDefinition
 ): Partial<State> {
-  const transition = createTransition(definition);
+  const transition = createTransition(definition, module);
   
   return {
     name,
@@ -76,11 +76,6 @@ export function registerStateType(type: string, creator: StateCreator): void {
 
 // Helper to check if we should continue processing
 export function shouldContinue(state: State, person: Person, time: number): boolean {
-  // Terminal states always return false
-  if (state.definition.type === 'Terminal') {
-    return false;
-  }
-  
   // Dead patients don't continue (unless it's a death-related state)
   if (!person.attributes.get('alive') && state.definition.type !== 'Death') {
     return false;
@@ -0,0 +1,46 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { findActiveEntry } from '../entry-reference.ts';
+
+export interface AllergyEndState extends State {
+  type: 'AllergyEnd';
+  codes?: any[];
+  allergyOnset?: string;
+  referencedByAttribute?: string;
+}
+
+export function createAllergyEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): AllergyEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'AllergyEnd',
+    codes: definition.codes,
+    allergyOnset: definition.allergy_onset,
+    referencedByAttribute: definition.referenced_by_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Find the allergy the person outgrew
+      const allergy = findActiveEntry(person, module, person.record.allergies, {
+        codes: this.codes,
+        stateName: this.allergyOnset,
+        attribute: this.referencedByAttribute
+      }, time);
+      
+      if (allergy) {
+        allergy.endTime = time;
+        this.entry = allergy;
+      }
+      
+      return true;
+    },
+    
+    clone(): AllergyEndState {
+      return createAllergyEndState(name, module, definition);
+    }
+  } as AllergyEndState;
+}
@@ -0,0 +1,111 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Allergy, AllergyReaction } from '../../types/index.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+// A possible reaction and the probability of each severity; the remaining
+// probability (or an explicit 'none' level) means no reaction
+export interface AllergyReactionDefinition {
+  reaction: any;
+  possible_severities: Array<{
+    level: 'mild' | 'moderate' | 'severe' | 'none';
+    value: number;
+  }>;
+}
+
+export interface AllergyOnsetState extends State {
+  type: 'AllergyOnset';
+  codes?: any[];
+  allergyType?: Allergy['allergyType'];
+  category?: Allergy['category'];
+  criticality?: Allergy['criticality'];
+  reactions?: AllergyReactionDefinition[];
+  assignToAttribute?: string;
+}
+
+export function createAllergyOnsetState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): AllergyOnsetState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'AllergyOnset',
+    codes: definition.codes,
+    allergyType: definition.allergy_type || 'allergy',
+    category: definition.category,
+    criticality: definition.criticality,
+    reactions: definition.reactions,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Create allergy
+      const allergy: Allergy = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'Allergy',
+        startTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Allergy'
+        },
+        allergyType: this.allergyType,
+        category: this.category,
+        criticality: this.criticality,
+        reactions: sampleReactions(person, this.reactions || [])
+      };
+      
+      // Recorded during the current encounter, if there is one
+      attachToEncounter(person, allergy);
+      
+      // Add to health record
+      person.record.allergies.push(allergy);
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, allergy);
+      }
+      
+      // Store reference for this state
+      this.entry = allergy;
+      
+      return true;
+    },
+    
+    clone(): AllergyOnsetState {
+      return createAllergyOnsetState(name, module, definition);
+    }
+  } as AllergyOnsetState;
+}
+
+// Pick a severity for each possible reaction, dropping reactions that don't occur
+function sampleReactions(person: Person, reactions: AllergyReactionDefinition[]): AllergyReaction[] {
+  const random = Random.fromPerson(person);
+  const sampled: AllergyReaction[] = [];
+  
+  for (const definition of reactions) {
+    const value = random.random();
+    let cumulative = 0;
+    
+    for (const severity of definition.possible_severities) {
+      cumulative += severity.value;
+      
+      if (value < cumulative) {
+        if (severity.level !== 'none') {
+          sampled.push({
+            manifestation: {
+              coding: [definition.reaction],
+              text: definition.reaction.display
+            },
+            severity: severity.level
+          });
+        }
+        break;
+      }
+    }
+  }
+  
+  return sampled;
+}
@@ -0,0 +1,58 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { ModuleEngine, getModuleContext, moduleContextKey } from '../module-engine.ts';
+
+export interface CallSubmoduleState extends State {
+  type: 'CallSubmodule';
+  submodule: string;
+  engine?: ModuleEngine; // Engine of the submodule run in progress
+}
+
+export function createCallSubmoduleState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): CallSubmoduleState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'CallSubmodule',
+    submodule: definition.module || definition.submodule,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // First time entering this state - start the submodule from its Initial state
+      if (!this.engine) {
+        const resolveModule = getModuleContext(person, module)?.resolveModule;
+        const submodule = resolveModule?.(this.submodule);
+        if (!submodule) {
+          throw new Error(`Submodule ${this.submodule} not found (called from ${module.name})`);
+        }
+        
+        // The run has a context of its own, so callers of the same
+        // submodule don't share one
+        const call: Module = {
+          ...submodule,
+          contextKey: `${module.contextKey || module.name}/${name}/${this.submodule}`
+        };
+        person.attributes.delete(moduleContextKey(call));
+        this.engine = new ModuleEngine(call, false, resolveModule);
+      }
+      
+      // Run the submodule in the caller's timestep
+      await this.engine.process(person, time);
+      
+      // Wait here until the submodule reaches its Terminal state
+      if (!this.engine.isFinished(person)) {
+        return false;
+      }
+      
+      this.engine = undefined;
+      return true;
+    },
+    
+    clone(): CallSubmoduleState {
+      return createCallSubmoduleState(name, module, definition);
+    }
+  } as CallSubmoduleState;
+}
@@ -0,0 +1,46 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { findActiveEntry } from '../entry-reference.ts';
+
+export interface CarePlanEndState extends State {
+  type: 'CarePlanEnd';
+  codes?: any[];
+  careplan?: string;
+  referencedByAttribute?: string;
+}
+
+export function createCarePlanEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): CarePlanEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'CarePlanEnd',
+    codes: definition.codes,
+    careplan: definition.careplan,
+    referencedByAttribute: definition.referenced_by_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Find the care plan to end
+      const carePlan = findActiveEntry(person, module, person.record.carePlans, {
+        codes: this.codes,
+        stateName: this.careplan,
+        attribute: this.referencedByAttribute
+      }, time);
+      
+      if (carePlan) {
+        carePlan.endTime = time;
+        this.entry = carePlan;
+      }
+      
+      return true;
+    },
+    
+    clone(): CarePlanEndState {
+      return createCarePlanEndState(name, module, definition);
+    }
+  } as CarePlanEndState;
+}
@@ -0,0 +1,78 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, CarePlan, CodeableConcept } from '../../types/index.ts';
+import { resolveReason } from '../entry-reference.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface CarePlanStartState extends State {
+  type: 'CarePlanStart';
+  codes?: any[];
+  activities?: any[];
+  goals?: Array<{ text?: string; addresses?: string[] }>;
+  reason?: string;
+  assignToAttribute?: string;
+}
+
+export function createCarePlanStartState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): CarePlanStartState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'CarePlanStart',
+    codes: definition.codes,
+    activities: definition.activities,
+    goals: definition.goals,
+    reason: definition.reason,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Create care plan
+      const carePlan: CarePlan = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'CarePlan',
+        startTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Care Plan'
+        },
+        activities: this.activities?.map(activity => ({
+          coding: [activity],
+          text: activity.display
+        })),
+        reason: resolveReason(person, module, this.reason),
+        goals: this.goals?.map(goal => ({
+          text: goal.text,
+          // Goals address conditions by attribute or state name, like reasons
+          addresses: goal.addresses
+            ?.map(address => resolveReason(person, module, address))
+            .filter((codes): codes is CodeableConcept => !!codes)
+        }))
+      };
+      
+      // Started during the current encounter, if there is one
+      attachToEncounter(person, carePlan);
+      
+      // Add to health record
+      person.record.carePlans.push(carePlan);
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, carePlan);
+      }
+      
+      // Store reference for this state
+      this.entry = carePlan;
+      
+      return true;
+    },
+    
+    clone(): CarePlanStartState {
+      return createCarePlanStartState(name, module, definition);
+    }
+  } as CarePlanStartState;
+}
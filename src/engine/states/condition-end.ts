@@ -0,0 +1,49 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { findActiveEntry } from '../entry-reference.ts';
+
+export interface ConditionEndState extends State {
+  type: 'ConditionEnd';
+  codes?: any[];
+  conditionOnset?: string;
+  referencedByAttribute?: string;
+}
+
+export function createConditionEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): ConditionEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'ConditionEnd',
+    codes: definition.codes,
+    conditionOnset: definition.condition_onset,
+    referencedByAttribute: definition.referenced_by_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Find the condition to resolve
+      const condition = findActiveEntry(person, module, person.record.conditions, {
+        codes: this.codes,
+        stateName: this.conditionOnset,
+        attribute: this.referencedByAttribute
+      }, time);
+      
+      // Ending a condition the person doesn't have is a no-op
+      if (condition) {
+        condition.endTime = time;
+        condition.clinicalStatus = 'resolved';
+        
+        this.entry = condition;
+      }
+      
+      return true;
+    },
+    
+    clone(): ConditionEndState {
+      return createConditionEndState(name, module, definition);
+    }
+  } as ConditionEndState;
+}
@@ -1,5 +1,8 @@
 import { State, createBaseState } from '../state.ts';
 import { Module, StateDefinition, Person, Condition } from '../../types/index.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { getModuleContext } from '../module-engine.ts';
+import { Random } from '../../utils/random.ts';
 import { generateUUID } from '../../utils/uuid.ts';
 
 export interface ConditionOnsetState extends State {
@@ -7,6 +10,58 @@ export interface ConditionOnsetState extends State {
   targetEncounter?: string;
   assignToAttribute?: string;
   codes?: any[];
+  onset?: number;
+  pendingDiagnosis?: boolean;
+}
+
+// Record the condition in the health record, as part of the current encounter
+function diagnose(state: ConditionOnsetState, person: Person): void {
+  const condition: Condition = {
+    id: generateUUID(Random.fromPerson(person)),
+    type: 'Condition',
+    startTime: state.onset!,
+    clinicalStatus: 'active',
+    codes: {
+      coding: state.codes || [{
+        system: 'SNOMED-CT', 
+        code: '367498001',
+        display: 'Condition'
+      }],
+      text: state.codes?.[0]?.display || 'Condition'
+    }
+  };
+  
+  attachToEncounter(person, condition);
+  
+  // Add to health record
+  person.record.conditions.push(condition);
+  
+  // Assign to attribute if specified
+  if (state.assignToAttribute) {
+    person.attributes.set(state.assignToAttribute, condition);
+  }
+  
+  // Store reference for this state
+  state.entry = condition;
+  state.pendingDiagnosis = false;
+}
+
+// Diagnose conditions in the module that have been waiting for the named
+// encounter state (their `target_encounter`)
+export function diagnosePendingConditions(person: Person, module: Module, encounterName: string): void {
+  const context = getModuleContext(person, module);
+  if (!context) {
+    return;
+  }
+  
+  for (const state of context.states.values()) {
+    const onset = state as ConditionOnsetState;
+    if (state.definition.type === 'ConditionOnset' &&
+        onset.pendingDiagnosis &&
+        onset.targetEncounter === encounterName) {
+      diagnose(onset, person);
+    }
+  }
 }
 
 export function createConditionOnsetState(
@@ -24,33 +79,20 @@ export function createConditionOnsetState(
     codes: definition.codes,
     
     async process(person: Person, time: number): Promise<boolean> {
-      // Create condition
-      const condition: Condition = {
-        id: generateUUID(),
-        type: 'Condition',
-        startTime: time,
-        clinicalStatus: 'active',
-        codes: {
-          coding: this.codes || [{
-            system: 'SNOMED-CT', 
-            code: '367498001',
-            display: 'Condition'
-          }],
-          text: this.codes?.[0]?.display || 'Condition'
-        }
-      };
+      this.onset = time;
       
-      // Add to health record
-      person.record.conditions.push(condition);
+      // With a target encounter the condition starts now but is only
+      // diagnosed once the module reaches that encounter
+      const context = getModuleContext(person, module);
+      const inTargetEncounter = !!context?.encounter &&
+        context.states.get(this.targetEncounter!)?.entry === context.encounter;
       
-      // Assign to attribute if specified
-      if (this.assignToAttribute) {
-        person.attributes.set(this.assignToAttribute, condition);
+      if (!this.targetEncounter || inTargetEncounter) {
+        diagnose(this, person);
+      } else {
+        this.pendingDiagnosis = true;
       }
       
-      // Store reference for this state
-      this.entry = condition;
-      
       return true;
     },
     
@@ -58,4 +100,4 @@ export function createConditionOnsetState(
       return createConditionOnsetState(name, module, definition);
     }
   } as ConditionOnsetState;
-}
\ No newline at end of file
+}
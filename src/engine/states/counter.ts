@@ -0,0 +1,38 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+
+export interface CounterState extends State {
+  type: 'Counter';
+  attribute: string;
+  action: 'increment' | 'decrement';
+  amount: number;
+}
+
+export function createCounterState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): CounterState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Counter',
+    attribute: definition.attribute,
+    action: definition.action,
+    amount: definition.amount ?? 1,
+    
+    async process(person: Person, _time: number): Promise<boolean> {
+      // Missing or non-numeric attributes count from zero
+      const current = Number(person.attributes.get(this.attribute)) || 0;
+      const change = this.action === 'decrement' ? -this.amount : this.amount;
+      
+      person.attributes.set(this.attribute, current + change);
+      return true;
+    },
+    
+    clone(): CounterState {
+      return createCounterState(name, module, definition);
+    }
+  } as CounterState;
+}
@@ -0,0 +1,130 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Duration, Range, CodeableConcept, Encounter, Observation } from '../../types/index.ts';
+import { findStateEntry, findAttributeEntry } from '../entry-reference.ts';
+import { sampleDurationMs } from '../../utils/time.ts';
+import { getProviderNetwork } from '../../providers/index.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface DeathState extends State {
+  type: 'Death';
+  exact?: Duration;
+  range?: Range & { unit: string };
+  codes?: any[];
+  conditionOnset?: string;
+  referencedByAttribute?: string;
+  next?: number; // Scheduled time of death
+}
+
+export function createDeathState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): DeathState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Death',
+    exact: definition.exact,
+    range: definition.range,
+    codes: definition.codes,
+    conditionOnset: definition.condition_onset,
+    referencedByAttribute: definition.referenced_by_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // First time entering this state - schedule the death
+      if (!this.entered) {
+        this.entered = time;
+        this.next = time + (sampleDurationMs(person, this.exact, this.range) || 0);
+      }
+      
+      // Wait until the scheduled time of death
+      if (time < this.next!) {
+        return false;
+      }
+      
+      recordDeath(person, this.next!, resolveCauseOfDeath(this, person));
+      return true;
+    },
+    
+    clone(): DeathState {
+      return createDeathState(name, module, definition);
+    }
+  } as DeathState;
+}
+
+// Cause of death from codes, a ConditionOnset state or an attribute
+function resolveCauseOfDeath(state: DeathState, person: Person): CodeableConcept | undefined {
+  if (state.codes) {
+    return {
+      coding: state.codes,
+      text: state.codes[0]?.display
+    };
+  }
+  
+  if (state.conditionOnset) {
+    return findStateEntry(person, state.module, state.conditionOnset)?.codes;
+  }
+  
+  if (state.referencedByAttribute) {
+    return findAttributeEntry(person, state.referencedByAttribute)?.codes;
+  }
+  
+  return undefined;
+}
+
+// Record a person's death: marks them deceased and adds the death
+// certification encounter and cause of death observation to the record
+export function recordDeath(person: Person, time: number, cause?: CodeableConcept): void {
+  // A person can only die once
+  if (person.deathDate) {
+    return;
+  }
+  
+  person.attributes.set('alive', false);
+  person.deathDate = new Date(time);
+  
+  if (cause) {
+    person.attributes.set('cause_of_death', cause);
+  }
+  
+  const encounter: Encounter = {
+    id: generateUUID(Random.fromPerson(person)),
+    type: 'Encounter',
+    startTime: time,
+    endTime: time,
+    encounterClass: 'ambulatory',
+    codes: {
+      coding: [{
+        system: 'SNOMED-CT',
+        code: '308646001',
+        display: 'Death Certification'
+      }],
+      text: 'Death Certification'
+    },
+    reason: cause
+  };
+  getProviderNetwork()?.attributeEncounter(person, encounter);
+  person.record.encounters.push(encounter);
+  
+  if (cause) {
+    const observation: Observation = {
+      id: generateUUID(Random.fromPerson(person)),
+      type: 'Observation',
+      startTime: time,
+      // Certified during the death certification encounter
+      encounter: encounter.id,
+      codes: {
+        coding: [{
+          system: 'LOINC',
+          code: '69453-9',
+          display: 'Cause of Death [US Standard Certificate of Death]'
+        }],
+        text: 'Cause of Death [US Standard Certificate of Death]'
+      },
+      value: cause
+    };
+    person.record.observations.push(observation);
+  }
+}
@@ -1,6 +1,6 @@
 import { State, createBaseState } from '../state.ts';
 import { Module, StateDefinition, Person, Duration, Range } from '../../types/index.ts';
-import { Random } from '../../utils/random.ts';
+import { sampleDurationMs } from '../../utils/time.ts';
 
 export interface DelayState extends State {
   type: 'Delay';
@@ -28,15 +28,9 @@ export function createDelayState(
         this.entered = time;
         
         // Calculate delay duration
-        let delayMs: number;
+        const delayMs = sampleDurationMs(person, this.exact, this.range);
         
-        if (this.exact) {
-          delayMs = convertToMs(this.exact.quantity, this.exact.unit);
-        } else if (this.range) {
-          const random = Random.fromPerson(person);
-          const value = random.random() * (this.range.high - this.range.low) + this.range.low;
-          delayMs = convertToMs(value, this.range.unit);
-        } else {
+        if (delayMs === undefined) {
           // No delay specified, continue immediately
           return true;
         }
@@ -53,24 +47,3 @@ export function createDelayState(
     }
   } as DelayState;
 }
-
-function convertToMs(value: number, unit: string): number {
-  switch (unit) {
-    case 'years':
-      return value * 365.25 * 24 * 60 * 60 * 1000;
-    case 'months':
-      return value * 30.4375 * 24 * 60 * 60 * 1000;
-    case 'weeks':
-      return value * 7 * 24 * 60 * 60 * 1000;
-    case 'days':
-      return value * 24 * 60 * 60 * 1000;
-    case 'hours':
-      return value * 60 * 60 * 1000;
-    case 'minutes':
-      return value * 60 * 1000;
-    case 'seconds':
-      return value * 1000;
-    default:
-      throw new Error(`Unknown time unit: ${unit}`);
-  }
-}
\ No newline at end of file
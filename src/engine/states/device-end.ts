@@ -0,0 +1,46 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { findActiveEntry } from '../entry-reference.ts';
+
+export interface DeviceEndState extends State {
+  type: 'DeviceEnd';
+  codes?: any[];
+  device?: string;
+  referencedByAttribute?: string;
+}
+
+export function createDeviceEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): DeviceEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'DeviceEnd',
+    codes: definition.code ? [definition.code] : definition.codes,
+    device: definition.device,
+    referencedByAttribute: definition.referenced_by_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Find the device being removed
+      const device = findActiveEntry(person, module, person.record.devices, {
+        codes: this.codes,
+        stateName: this.device,
+        attribute: this.referencedByAttribute
+      }, time);
+      
+      if (device) {
+        device.endTime = time;
+        this.entry = device;
+      }
+      
+      return true;
+    },
+    
+    clone(): DeviceEndState {
+      return createDeviceEndState(name, module, definition);
+    }
+  } as DeviceEndState;
+}
@@ -0,0 +1,70 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Device } from '../../types/index.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUDI } from '../../utils/identifiers.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface DeviceState extends State {
+  type: 'Device';
+  codes?: any[];
+  manufacturer?: string;
+  model?: string;
+  assignToAttribute?: string;
+}
+
+export function createDeviceState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): DeviceState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Device',
+    // Synthea modules use a single `code` for devices
+    codes: definition.code ? [definition.code] : definition.codes,
+    manufacturer: definition.manufacturer,
+    model: definition.model,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      const udi = generateUDI(Random.fromPerson(person), time);
+      
+      // Create device
+      const device: Device = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'Device',
+        startTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Device'
+        },
+        manufacturer: this.manufacturer,
+        model: this.model,
+        ...udi
+      };
+      
+      // Implanted or issued during the current encounter, if there is one
+      attachToEncounter(person, device);
+      
+      // Add to health record
+      person.record.devices.push(device);
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, device);
+      }
+      
+      // Store reference for this state
+      this.entry = device;
+      
+      return true;
+    },
+    
+    clone(): DeviceState {
+      return createDeviceState(name, module, definition);
+    }
+  } as DeviceState;
+}
@@ -0,0 +1,63 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, DiagnosticReport } from '../../types/index.ts';
+import { ObservationDefinition, createObservation } from './observation.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface DiagnosticReportState extends State {
+  type: 'DiagnosticReport';
+  codes?: any[];
+  observations: ObservationDefinition[];
+}
+
+export function createDiagnosticReportState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): DiagnosticReportState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'DiagnosticReport',
+    codes: definition.codes,
+    observations: definition.observations || [],
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Each result is recorded as its own laboratory observation
+      const results = this.observations.map(child =>
+        createObservation(person, child, time, 'laboratory')
+      );
+      person.record.observations.push(...results);
+      
+      // Create report
+      const report: DiagnosticReport = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'DiagnosticReport',
+        startTime: time,
+        endTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Diagnostic Report'
+        },
+        observations: results.map(result => result.id)
+      };
+      
+      // Reported as part of the current encounter, if there is one
+      attachToEncounter(person, report);
+      
+      // Add to health record
+      person.record.reports.push(report);
+      
+      // Store reference for this state
+      this.entry = report;
+      
+      return true;
+    },
+    
+    clone(): DiagnosticReportState {
+      return createDiagnosticReportState(name, module, definition);
+    }
+  } as DiagnosticReportState;
+}
@@ -0,0 +1,51 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Encounter } from '../../types/index.ts';
+import { endEncounter } from '../encounters.ts';
+import { getModuleContext } from '../module-engine.ts';
+
+export interface EncounterEndState extends State {
+  type: 'EncounterEnd';
+  dischargeDisposition?: any;
+}
+
+export function createEncounterEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): EncounterEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'EncounterEnd',
+    dischargeDisposition: definition.discharge_disposition,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // End the encounter this module started, or else the current one
+      // (e.g. when a submodule ends its caller's encounter)
+      const context = getModuleContext(person, module);
+      const encounter: Encounter | undefined =
+        context?.encounter || person.attributes.get('current_encounter');
+      
+      if (encounter) {
+        const discharge = this.dischargeDisposition ? {
+          coding: [this.dischargeDisposition],
+          text: this.dischargeDisposition.display
+        } : undefined;
+        
+        endEncounter(person, encounter, time, discharge);
+        this.entry = encounter;
+      }
+      
+      if (context) {
+        context.encounter = undefined;
+      }
+      
+      return true;
+    },
+    
+    clone(): EncounterEndState {
+      return createEncounterEndState(name, module, definition);
+    }
+  } as EncounterEndState;
+}
@@ -1,5 +1,11 @@
 import { State, createBaseState } from '../state.ts';
 import { Module, StateDefinition, Person, Encounter, CodeableConcept } from '../../types/index.ts';
+import { administerScheduledImmunizations } from '../immunizations.ts';
+import { isWellnessDue, lastWellnessEncounter, endEncounter } from '../encounters.ts';
+import { getModuleContext } from '../module-engine.ts';
+import { diagnosePendingConditions } from './condition-onset.ts';
+import { getProviderNetwork } from '../../providers/index.ts';
+import { Random } from '../../utils/random.ts';
 import { generateUUID } from '../../utils/uuid.ts';
 
 export interface EncounterState extends State {
@@ -10,6 +16,32 @@ export interface EncounterState extends State {
   wellness?: boolean;
 }
 
+// Default codes for checkups: well child visits up to 18, general exams after
+function checkupCode(person: Person, time: number) {
+  const ageInYears = (time - person.birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+  return ageInYears < 18
+    ? { system: 'SNOMED-CT', code: '410620009', display: 'Well child visit' }
+    : { system: 'SNOMED-CT', code: '162673000', display: 'General examination of patient' };
+}
+
+// Make the encounter current, and owned by the state's module until it ends
+function joinEncounter(state: EncounterState, person: Person, encounter: Encounter): boolean {
+  person.attributes.set('current_encounter', encounter);
+  
+  const context = getModuleContext(person, state.module);
+  if (context) {
+    context.encounter = encounter;
+  }
+  
+  // Store reference for this state
+  state.entry = encounter;
+  
+  // Conditions that started earlier are diagnosed at their target encounter
+  diagnosePendingConditions(person, state.module, state.name);
+  
+  return true;
+}
+
 export function createEncounterState(
   name: string,
   module: Module,
@@ -26,18 +58,40 @@ export function createEncounterState(
     wellness: definition.wellness,
     
     async process(person: Person, time: number): Promise<boolean> {
+      const context = getModuleContext(person, module);
+      const previous = context?.encounter;
+      
+      // A module has at most one open encounter
+      if (previous) {
+        endEncounter(person, previous, time);
+        context!.encounter = undefined;
+      }
+      
+      if (this.wellness) {
+        // Join a checkup another module already started this timestep,
+        // otherwise wait for the next scheduled one
+        const checkup = lastWellnessEncounter(person);
+        if (checkup && checkup.startTime === time && checkup !== previous) {
+          return joinEncounter(this, person, checkup);
+        }
+        
+        if (!isWellnessDue(person, time)) {
+          return false;
+        }
+      }
+      
       // Create encounter
       const encounter: Encounter = {
-        id: generateUUID(),
+        id: generateUUID(Random.fromPerson(person)),
         type: 'Encounter',
         startTime: time,
-        encounterClass: this.encounterClass as any,
+        encounterClass: (this.wellness ? 'wellness' : this.encounterClass) as any,
         codes: {
-          coding: this.codes || [{
+          coding: this.codes || (this.wellness ? [checkupCode(person, time)] : [{
             system: 'SNOMED-CT',
             code: '308646001',
             display: 'Death certification'
-          }],
+          }]),
           text: this.codes?.[0]?.display || 'Encounter'
         }
       };
@@ -54,14 +108,18 @@ export function createEncounterState(
         }
       }
       
+      // Route to a facility and clinician when providers are loaded
+      getProviderNetwork()?.attributeEncounter(person, encounter);
+      
       // Add to health record
       person.record.encounters.push(encounter);
       
-      // Store as current encounter for other states to reference
-      person.attributes.set('current_encounter', encounter);
+      joinEncounter(this, person, encounter);
       
-      // Store reference for this state
-      this.entry = encounter;
+      // Wellness visits are when routine vaccines are given
+      if (this.wellness) {
+        administerScheduledImmunizations(person, time);
+      }
       
       return true;
     },
@@ -26,7 +26,7 @@ export function createGuardState(
       }
       
       // Evaluate the condition
-      return evaluateCondition(this.allow, person, time);
+      return evaluateCondition(this.allow, person, time, module);
     },
     
     clone(): GuardState {
@@ -0,0 +1,113 @@
+import { State, createBaseState } from '../state.ts';
+import {
+  Module,
+  StateDefinition,
+  Person,
+  ImagingStudy,
+  ImagingSeries,
+  Procedure
+} from '../../types/index.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateDicomUID, dicomSeriesUID, dicomInstanceUID } from '../../utils/identifiers.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface ImagingInstanceDefinition {
+  title: string;
+  sop_class: any;
+}
+
+export interface ImagingSeriesDefinition {
+  body_site?: any;
+  modality: any;
+  instances?: ImagingInstanceDefinition[];
+}
+
+export interface ImagingStudyState extends State {
+  type: 'ImagingStudy';
+  procedureCode?: any;
+  series: ImagingSeriesDefinition[];
+}
+
+function toCodeableConcept(coding: any, fallback: string) {
+  return {
+    coding: coding ? [coding] : [],
+    text: coding?.display || fallback
+  };
+}
+
+export function createImagingStudyState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): ImagingStudyState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'ImagingStudy',
+    procedureCode: definition.procedure_code,
+    series: definition.series || [],
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      const studyUid = generateDicomUID(Random.fromPerson(person), time);
+      
+      const series: ImagingSeries[] = this.series.map((definition, i) => {
+        const seriesUid = dicomSeriesUID(studyUid, i + 1);
+        
+        return {
+          uid: seriesUid,
+          number: i + 1,
+          modality: toCodeableConcept(definition.modality, 'Modality'),
+          bodySite: definition.body_site
+            ? toCodeableConcept(definition.body_site, 'Body site')
+            : undefined,
+          instances: (definition.instances || []).map((instance, j) => ({
+            uid: dicomInstanceUID(seriesUid, j + 1),
+            number: j + 1,
+            title: instance.title,
+            sopClass: toCodeableConcept(instance.sop_class, instance.title)
+          }))
+        };
+      });
+      
+      // Create imaging study
+      const study: ImagingStudy = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'ImagingStudy',
+        startTime: time,
+        endTime: time,
+        codes: toCodeableConcept(this.procedureCode, 'Imaging study'),
+        uid: studyUid,
+        modality: series[0]?.modality || toCodeableConcept(undefined, 'Modality'),
+        bodySite: series[0]?.bodySite,
+        series
+      };
+      
+      // The imaging itself is also recorded as a procedure
+      const procedure: Procedure = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'Procedure',
+        startTime: time,
+        endTime: time,
+        codes: toCodeableConcept(this.procedureCode, 'Imaging procedure')
+      };
+      
+      attachToEncounter(person, study);
+      attachToEncounter(person, procedure);
+      
+      // Add to health record
+      person.record.imagingStudies.push(study);
+      person.record.procedures.push(procedure);
+      
+      // Store reference for this state
+      this.entry = study;
+      
+      return true;
+    },
+    
+    clone(): ImagingStudyState {
+      return createImagingStudyState(name, module, definition);
+    }
+  } as ImagingStudyState;
+}
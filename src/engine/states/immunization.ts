@@ -0,0 +1,53 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { recordImmunization } from '../immunizations.ts';
+
+export interface ImmunizationState extends State {
+  type: 'Immunization';
+  codes?: any[];
+  series?: string;
+  doseQuantity?: { value: number; unit: string };
+  assignToAttribute?: string;
+}
+
+export function createImmunizationState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): ImmunizationState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Immunization',
+    codes: definition.codes,
+    // Doses of the same series are numbered consecutively
+    series: definition.series || definition.codes?.[0]?.code || name,
+    doseQuantity: definition.dose_quantity,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      const immunization = recordImmunization(
+        person,
+        time,
+        this.series!,
+        this.codes || [],
+        this.doseQuantity
+      );
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, immunization);
+      }
+      
+      // Store reference for this state
+      this.entry = immunization;
+      
+      return true;
+    },
+    
+    clone(): ImmunizationState {
+      return createImmunizationState(name, module, definition);
+    }
+  } as ImmunizationState;
+}
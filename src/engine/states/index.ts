@@ -5,8 +5,30 @@ export * from './simple.ts';
 export * from './delay.ts';
 export * from './guard.ts';
 export * from './encounter.ts';
+export * from './encounter-end.ts';
 export * from './condition-onset.ts';
+export * from './condition-end.ts';
 export * from './set-attribute.ts';
+export * from './death.ts';
+export * from './medication-order.ts';
+export * from './medication-end.ts';
+export * from './procedure.ts';
+export * from './observation.ts';
+export * from './multi-observation.ts';
+export * from './diagnostic-report.ts';
+export * from './call-submodule.ts';
+export * from './counter.ts';
+export * from './symptom.ts';
+export * from './vital-sign.ts';
+export * from './care-plan-start.ts';
+export * from './care-plan-end.ts';
+export * from './allergy-onset.ts';
+export * from './allergy-end.ts';
+export * from './device.ts';
+export * from './device-end.ts';
+export * from './supply-list.ts';
+export * from './imaging-study.ts';
+export * from './immunization.ts';
 
 // Register all state types
 import { registerStateType } from '../state.ts';
@@ -16,8 +38,30 @@ import { createSimpleState } from './simple.ts';
 import { createDelayState } from './delay.ts';
 import { createGuardState } from './guard.ts';
 import { createEncounterState } from './encounter.ts';
+import { createEncounterEndState } from './encounter-end.ts';
 import { createConditionOnsetState } from './condition-onset.ts';
+import { createConditionEndState } from './condition-end.ts';
 import { createSetAttributeState } from './set-attribute.ts';
+import { createDeathState } from './death.ts';
+import { createMedicationOrderState } from './medication-order.ts';
+import { createMedicationEndState } from './medication-end.ts';
+import { createProcedureState } from './procedure.ts';
+import { createObservationState } from './observation.ts';
+import { createMultiObservationState } from './multi-observation.ts';
+import { createDiagnosticReportState } from './diagnostic-report.ts';
+import { createCallSubmoduleState } from './call-submodule.ts';
+import { createCounterState } from './counter.ts';
+import { createSymptomState } from './symptom.ts';
+import { createVitalSignState } from './vital-sign.ts';
+import { createCarePlanStartState } from './care-plan-start.ts';
+import { createCarePlanEndState } from './care-plan-end.ts';
+import { createAllergyOnsetState } from './allergy-onset.ts';
+import { createAllergyEndState } from './allergy-end.ts';
+import { createDeviceState } from './device.ts';
+import { createDeviceEndState } from './device-end.ts';
+import { createSupplyListState } from './supply-list.ts';
+import { createImagingStudyState } from './imaging-study.ts';
+import { createImmunizationState } from './immunization.ts';
 
 export function registerAllStates(): void {
   registerStateType('Initial', createInitialState);
@@ -26,6 +70,28 @@ export function registerAllStates(): void {
   registerStateType('Delay', createDelayState);
   registerStateType('Guard', createGuardState);
   registerStateType('Encounter', createEncounterState);
+  registerStateType('EncounterEnd', createEncounterEndState);
   registerStateType('ConditionOnset', createConditionOnsetState);
+  registerStateType('ConditionEnd', createConditionEndState);
   registerStateType('SetAttribute', createSetAttributeState);
+  registerStateType('Death', createDeathState);
+  registerStateType('MedicationOrder', createMedicationOrderState);
+  registerStateType('MedicationEnd', createMedicationEndState);
+  registerStateType('Procedure', createProcedureState);
+  registerStateType('Observation', createObservationState);
+  registerStateType('MultiObservation', createMultiObservationState);
+  registerStateType('DiagnosticReport', createDiagnosticReportState);
+  registerStateType('CallSubmodule', createCallSubmoduleState);
+  registerStateType('Counter', createCounterState);
+  registerStateType('Symptom', createSymptomState);
+  registerStateType('VitalSign', createVitalSignState);
+  registerStateType('CarePlanStart', createCarePlanStartState);
+  registerStateType('CarePlanEnd', createCarePlanEndState);
+  registerStateType('AllergyOnset', createAllergyOnsetState);
+  registerStateType('AllergyEnd', createAllergyEndState);
+  registerStateType('Device', createDeviceState);
+  registerStateType('DeviceEnd', createDeviceEndState);
+  registerStateType('SupplyList', createSupplyListState);
+  registerStateType('ImagingStudy', createImagingStudyState);
+  registerStateType('Immunization', createImmunizationState);
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { findActiveEntry, resolveReason } from '../entry-reference.ts';
+
+export interface MedicationEndState extends State {
+  type: 'MedicationEnd';
+  codes?: any[];
+  medicationOrder?: string;
+  referencedByAttribute?: string;
+  reason?: string;
+}
+
+export function createMedicationEndState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): MedicationEndState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'MedicationEnd',
+    codes: definition.codes,
+    medicationOrder: definition.medication_order,
+    referencedByAttribute: definition.referenced_by_attribute,
+    reason: definition.reason,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Find the medication to stop
+      const medication = findActiveEntry(person, module, person.record.medications, {
+        codes: this.codes,
+        stateName: this.medicationOrder,
+        attribute: this.referencedByAttribute
+      }, time);
+      
+      // Nothing to stop is not an error, the module just moves on
+      if (medication) {
+        medication.endTime = time;
+        medication.stopReason = resolveReason(person, module, this.reason) || {
+          coding: [{
+            system: 'SNOMED-CT',
+            code: '182840001',
+            display: 'Drug treatment stopped - medical advice'
+          }],
+          text: 'Drug treatment stopped - medical advice'
+        };
+        
+        this.entry = medication;
+      }
+      
+      return true;
+    },
+    
+    clone(): MedicationEndState {
+      return createMedicationEndState(name, module, definition);
+    }
+  } as MedicationEndState;
+}
@@ -0,0 +1,89 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Medication } from '../../types/index.ts';
+import { resolveReason } from '../entry-reference.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { getProviderNetwork } from '../../providers/index.ts';
+import { convertToMs } from '../../utils/time.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface MedicationOrderState extends State {
+  type: 'MedicationOrder';
+  codes?: any[];
+  reason?: string;
+  prescription?: {
+    dosage?: Medication['dosage'];
+    duration?: Medication['duration'];
+  };
+  chronic?: boolean;
+  administration?: boolean;
+  assignToAttribute?: string;
+}
+
+export function createMedicationOrderState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): MedicationOrderState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'MedicationOrder',
+    codes: definition.codes,
+    reason: definition.reason,
+    prescription: definition.prescription,
+    chronic: definition.chronic,
+    administration: definition.administration,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Create medication
+      const medication: Medication = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'Medication',
+        startTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Medication'
+        },
+        dosage: this.prescription?.dosage,
+        duration: this.prescription?.duration,
+        reason: resolveReason(person, module, this.reason),
+        chronic: this.chronic || false,
+        administration: this.administration || false
+      };
+      
+      if (medication.administration) {
+        // Administered during the encounter, not taken afterwards
+        medication.endTime = time;
+      } else if (medication.duration && !medication.chronic) {
+        // A course of treatment ends on its own once the duration passes
+        medication.endTime = time + convertToMs(medication.duration.quantity, medication.duration.unit);
+      }
+      
+      // Prescribed during the current encounter, if there is one
+      attachToEncounter(person, medication);
+      
+      // Dispensed by the person's pharmacy when providers are loaded
+      getProviderNetwork()?.attributeMedication(person, medication);
+      
+      // Add to health record
+      person.record.medications.push(medication);
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, medication);
+      }
+      
+      // Store reference for this state
+      this.entry = medication;
+      
+      return true;
+    },
+    
+    clone(): MedicationOrderState {
+      return createMedicationOrderState(name, module, definition);
+    }
+  } as MedicationOrderState;
+}
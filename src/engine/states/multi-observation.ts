@@ -0,0 +1,50 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { ObservationDefinition, createObservation } from './observation.ts';
+
+export interface MultiObservationState extends State {
+  type: 'MultiObservation';
+  codes?: any[];
+  category?: string;
+  observations: ObservationDefinition[];
+}
+
+export function createMultiObservationState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): MultiObservationState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'MultiObservation',
+    codes: definition.codes,
+    category: definition.category,
+    observations: definition.observations || [],
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // The panel is a single observation with the children as components
+      const panel = createObservation(person, {
+        codes: this.codes,
+        category: this.category
+      }, time);
+      
+      panel.observations = this.observations.map(child =>
+        createObservation(person, child, time, this.category)
+      );
+      
+      // Add to health record
+      person.record.observations.push(panel);
+      
+      // Store reference for this state
+      this.entry = panel;
+      
+      return true;
+    },
+    
+    clone(): MultiObservationState {
+      return createMultiObservationState(name, module, definition);
+    }
+  } as MultiObservationState;
+}
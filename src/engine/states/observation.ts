@@ -0,0 +1,112 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Observation } from '../../types/index.ts';
+import { getVitalSign } from '../vital-signs.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+// Observation definition - shared by the Observation state and the
+// child observations of MultiObservation and DiagnosticReport states
+export interface ObservationDefinition {
+  codes?: any[];
+  category?: string;
+  unit?: string;
+  exact?: { quantity: any };
+  range?: { low: number; high: number; decimals?: number };
+  attribute?: string;
+  vital_sign?: string;
+  value_code?: any;
+}
+
+export interface ObservationState extends State {
+  type: 'Observation';
+  observation: ObservationDefinition;
+}
+
+export function createObservationState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): ObservationState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Observation',
+    observation: definition as ObservationDefinition,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      const observation = createObservation(person, this.observation, time);
+      
+      // Add to health record
+      person.record.observations.push(observation);
+      
+      // Store reference for this state
+      this.entry = observation;
+      
+      return true;
+    },
+    
+    clone(): ObservationState {
+      return createObservationState(name, module, definition);
+    }
+  } as ObservationState;
+}
+
+// Create an observation entry (not yet added to the record)
+export function createObservation(
+  person: Person,
+  definition: ObservationDefinition,
+  time: number,
+  category?: string
+): Observation {
+  const observation: Observation = {
+    id: generateUUID(Random.fromPerson(person)),
+    type: 'Observation',
+    startTime: time,
+    endTime: time,
+    codes: {
+      coding: definition.codes || [],
+      text: definition.codes?.[0]?.display || 'Observation'
+    },
+    category: definition.category || category,
+    value: observationValue(person, definition),
+    unit: definition.unit
+  };
+  
+  // Taken during the current encounter, if there is one
+  attachToEncounter(person, observation);
+  
+  return observation;
+}
+
+// Value from an exact quantity, a range, an attribute, a vital sign or a code
+function observationValue(person: Person, definition: ObservationDefinition): any {
+  if (definition.exact) {
+    return definition.exact.quantity;
+  }
+  
+  if (definition.range) {
+    const { low, high, decimals } = definition.range;
+    const random = Random.fromPerson(person);
+    const value = random.random() * (high - low) + low;
+    return Number(value.toFixed(decimals ?? 1));
+  }
+  
+  if (definition.attribute) {
+    return person.attributes.get(definition.attribute);
+  }
+  
+  if (definition.vital_sign) {
+    return getVitalSign(person, definition.vital_sign);
+  }
+  
+  if (definition.value_code) {
+    return {
+      coding: [definition.value_code],
+      text: definition.value_code.display
+    };
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,73 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Procedure, Duration, Range } from '../../types/index.ts';
+import { resolveReason } from '../entry-reference.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { convertToMs, sampleDuration } from '../../utils/time.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface ProcedureState extends State {
+  type: 'Procedure';
+  codes?: any[];
+  reason?: string;
+  duration?: Duration | Range;
+  assignToAttribute?: string;
+}
+
+export function createProcedureState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): ProcedureState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Procedure',
+    codes: definition.codes,
+    reason: definition.reason,
+    duration: definition.duration,
+    assignToAttribute: definition.assign_to_attribute,
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // Create procedure
+      const procedure: Procedure = {
+        id: generateUUID(Random.fromPerson(person)),
+        type: 'Procedure',
+        startTime: time,
+        codes: {
+          coding: this.codes || [],
+          text: this.codes?.[0]?.display || 'Procedure'
+        },
+        reason: resolveReason(person, module, this.reason)
+      };
+      
+      if (this.duration) {
+        procedure.duration = sampleDuration(person, this.duration);
+        procedure.endTime = time + convertToMs(procedure.duration.quantity, procedure.duration.unit);
+      } else {
+        procedure.endTime = time;
+      }
+      
+      // Performed as part of the current encounter, if there is one
+      attachToEncounter(person, procedure);
+      
+      // Add to health record
+      person.record.procedures.push(procedure);
+      
+      // Assign to attribute if specified
+      if (this.assignToAttribute) {
+        person.attributes.set(this.assignToAttribute, procedure);
+      }
+      
+      // Store reference for this state
+      this.entry = procedure;
+      
+      return true;
+    },
+    
+    clone(): ProcedureState {
+      return createProcedureState(name, module, definition);
+    }
+  } as ProcedureState;
+}
@@ -0,0 +1,56 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person, Supply } from '../../types/index.ts';
+import { attachToEncounter } from '../encounters.ts';
+import { Random } from '../../utils/random.ts';
+import { generateUUID } from '../../utils/uuid.ts';
+
+export interface SupplyDefinition {
+  quantity: number;
+  code: any;
+}
+
+export interface SupplyListState extends State {
+  type: 'SupplyList';
+  supplies: SupplyDefinition[];
+}
+
+export function createSupplyListState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): SupplyListState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'SupplyList',
+    supplies: definition.supplies || [],
+    
+    async process(person: Person, time: number): Promise<boolean> {
+      // One supply entry per item on the list
+      for (const item of this.supplies) {
+        const supply: Supply = {
+          id: generateUUID(Random.fromPerson(person)),
+          type: 'Supply',
+          startTime: time,
+          endTime: time,
+          codes: {
+            coding: [item.code],
+            text: item.code?.display || 'Supply'
+          },
+          quantity: item.quantity ?? 1
+        };
+        
+        attachToEncounter(person, supply);
+        
+        person.record.supplies.push(supply);
+      }
+      
+      return true;
+    },
+    
+    clone(): SupplyListState {
+      return createSupplyListState(name, module, definition);
+    }
+  } as SupplyListState;
+}
@@ -0,0 +1,66 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { Random } from '../../utils/random.ts';
+
+export interface SymptomState extends State {
+  type: 'Symptom';
+  symptom: string;
+  cause: string;
+  exact?: { quantity: number };
+  range?: { low: number; high: number };
+  probability: number;
+}
+
+export function createSymptomState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): SymptomState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'Symptom',
+    symptom: definition.symptom,
+    cause: definition.cause || module.name,
+    exact: definition.exact,
+    range: definition.range,
+    probability: definition.probability ?? 1,
+    
+    async process(person: Person, _time: number): Promise<boolean> {
+      const random = Random.fromPerson(person);
+      
+      // The symptom only manifests with the given probability
+      if (random.random() >= this.probability) {
+        return true;
+      }
+      
+      let severity = 0;
+      if (this.exact) {
+        severity = this.exact.quantity;
+      } else if (this.range) {
+        severity = random.random() * (this.range.high - this.range.low) + this.range.low;
+      }
+      
+      setSymptom(person, this.symptom, this.cause, severity);
+      return true;
+    },
+    
+    clone(): SymptomState {
+      return createSymptomState(name, module, definition);
+    }
+  } as SymptomState;
+}
+
+// Several causes can produce the same symptom; the 'symptoms' attribute read
+// by Symptom conditions holds the highest severity across causes, while
+// 'symptom_causes' keeps the severity reported by each cause
+function setSymptom(person: Person, symptom: string, cause: string, severity: number): void {
+  const causes = person.attributes.get('symptom_causes') || {};
+  causes[symptom] = { ...causes[symptom], [cause]: severity };
+  person.attributes.set('symptom_causes', causes);
+  
+  const symptoms = person.attributes.get('symptoms') || {};
+  symptoms[symptom] = Math.max(...Object.values<number>(causes[symptom]));
+  person.attributes.set('symptoms', symptoms);
+}
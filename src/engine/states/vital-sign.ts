@@ -0,0 +1,45 @@
+import { State, createBaseState } from '../state.ts';
+import { Module, StateDefinition, Person } from '../../types/index.ts';
+import { setVitalSign } from '../vital-signs.ts';
+import { Random } from '../../utils/random.ts';
+
+export interface VitalSignState extends State {
+  type: 'VitalSign';
+  vitalSign: string;
+  unit?: string;
+  exact?: { quantity: number };
+  range?: { low: number; high: number };
+}
+
+export function createVitalSignState(
+  name: string,
+  module: Module,
+  definition: StateDefinition
+): VitalSignState {
+  const base = createBaseState(name, module, definition);
+  
+  return {
+    ...base,
+    type: 'VitalSign',
+    vitalSign: definition.vital_sign,
+    unit: definition.unit,
+    exact: definition.exact,
+    range: definition.range,
+    
+    async process(person: Person, _time: number): Promise<boolean> {
+      if (this.exact) {
+        setVitalSign(person, this.vitalSign, this.exact.quantity);
+      } else if (this.range) {
+        const random = Random.fromPerson(person);
+        const value = random.random() * (this.range.high - this.range.low) + this.range.low;
+        setVitalSign(person, this.vitalSign, value);
+      }
+      
+      return true;
+    },
+    
+    clone(): VitalSignState {
+      return createVitalSignState(name, module, definition);
+    }
+  } as VitalSignState;
+}
@@ -1,5 +1,6 @@
 import { 
   StateDefinition, 
+  Module,
   Person,
   ConditionalTransitionOption,
   DistributedTransitionOption,
@@ -24,11 +25,14 @@ export class DirectTransition implements Transition {
 
 // Conditional transition - chooses based on conditions
 export class ConditionalTransition implements Transition {
-  constructor(private options: ConditionalTransitionOption[]) {}
+  constructor(
+    private options: ConditionalTransitionOption[],
+    private module?: Module
+  ) {}
   
   follow(person: Person, time: number): string | null {
     for (const option of this.options) {
-      if (!option.condition || evaluateCondition(option.condition, person, time)) {
+      if (!option.condition || evaluateCondition(option.condition, person, time, this.module)) {
         return option.transition;
       }
     }
@@ -75,7 +79,10 @@ export class DistributedTransition implements Transition {
 export class ComplexTransition implements Transition {
   private conditionalTransitions: Map<number, ConditionalTransition | DistributedTransition>;
   
-  constructor(private options: ComplexTransitionOption[]) {
+  constructor(
+    private options: ComplexTransitionOption[],
+    private module?: Module
+  ) {
     this.conditionalTransitions = new Map();
     
     for (let i = 0; i < options.length; i++) {
@@ -94,7 +101,7 @@ export class ComplexTransition implements Transition {
     for (let i = 0; i < this.options.length; i++) {
       const option = this.options[i]!;
       
-      if (!option.condition || evaluateCondition(option.condition, person, time)) {
+      if (!option.condition || evaluateCondition(option.condition, person, time, this.module)) {
         const transition = this.conditionalTransitions.get(i);
         if (transition) {
           return transition.follow(person, time);
@@ -106,14 +113,15 @@ export class ComplexTransition implements Transition {
   }
 }
 
-// Factory function to create appropriate transition type
-export function createTransition(definition: StateDefinition): Transition | undefined {
+// Factory function to create appropriate transition type. The module is
+// needed by conditions that look at the module's state history.
+export function createTransition(definition: StateDefinition, module?: Module): Transition | undefined {
   if (definition.direct_transition) {
     return new DirectTransition(definition.direct_transition);
   }
   
   if (definition.conditional_transition) {
-    return new ConditionalTransition(definition.conditional_transition);
+    return new ConditionalTransition(definition.conditional_transition, module);
   }
   
   if (definition.distributed_transition) {
@@ -121,7 +129,7 @@ export function createTransition(definition: StateDefinition): Transition | unde
   }
   
   if (definition.complex_transition) {
-    return new ComplexTransition(definition.complex_transition);
+    return new ComplexTransition(definition.complex_transition, module);
   }
   
   // No transition defined (valid for Terminal states)
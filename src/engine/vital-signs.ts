@@ -0,0 +1,15 @@
+import { Person } from '../types/index.ts';
+
+// Vital signs are kept in the 'vital_signs' attribute as a name -> value map
+// (e.g. 'Systolic Blood Pressure', 'BMI'), the same way symptoms are tracked
+export function getVitalSign(person: Person, name: string): number | undefined {
+  const vitalSigns = person.attributes.get('vital_signs') || {};
+  return vitalSigns[name];
+}
+
+// Set a vital sign to a new value
+export function setVitalSign(person: Person, name: string, value: number): void {
+  const vitalSigns = person.attributes.get('vital_signs') || {};
+  vitalSigns[name] = value;
+  person.attributes.set('vital_signs', vitalSigns);
+}
@@ -0,0 +1,333 @@
+import { Person, Observation, CodeableConcept } from '../../types/index.ts';
+import { toCSVRow } from '../../utils/csv.ts';
+import { appendFile, mkdir, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Column layouts of the Synthea CSV exporter
+export const CSV_HEADERS = {
+  patients: [
+    'Id', 'BIRTHDATE', 'DEATHDATE', 'SSN', 'DRIVERS', 'PASSPORT', 'PREFIX', 'FIRST', 'MIDDLE', 'LAST',
+    'SUFFIX', 'MAIDEN', 'MARITAL', 'RACE', 'ETHNICITY', 'GENDER', 'BIRTHPLACE', 'ADDRESS', 'CITY',
+    'STATE', 'COUNTY', 'FIPS', 'ZIP', 'LAT', 'LON', 'HEALTHCARE_EXPENSES', 'HEALTHCARE_COVERAGE', 'INCOME'
+  ],
+  encounters: [
+    'Id', 'START', 'STOP', 'PATIENT', 'ORGANIZATION', 'PROVIDER', 'PAYER', 'ENCOUNTERCLASS', 'CODE',
+    'DESCRIPTION', 'BASE_ENCOUNTER_COST', 'TOTAL_CLAIM_COST', 'PAYER_COVERAGE', 'REASONCODE', 'REASONDESCRIPTION'
+  ],
+  conditions: ['START', 'STOP', 'PATIENT', 'ENCOUNTER', 'CODE', 'DESCRIPTION'],
+  medications: [
+    'START', 'STOP', 'PATIENT', 'PAYER', 'ENCOUNTER', 'CODE', 'DESCRIPTION', 'BASE_COST',
+    'PAYER_COVERAGE', 'DISPENSES', 'TOTALCOST', 'REASONCODE', 'REASONDESCRIPTION'
+  ],
+  observations: ['DATE', 'PATIENT', 'ENCOUNTER', 'CATEGORY', 'CODE', 'DESCRIPTION', 'VALUE', 'UNITS', 'TYPE'],
+  procedures: [
+    'START', 'STOP', 'PATIENT', 'ENCOUNTER', 'CODE', 'DESCRIPTION', 'BASE_COST', 'REASONCODE', 'REASONDESCRIPTION'
+  ],
+  immunizations: ['DATE', 'PATIENT', 'ENCOUNTER', 'CODE', 'DESCRIPTION', 'BASE_COST'],
+  careplans: ['Id', 'START', 'STOP', 'PATIENT', 'ENCOUNTER', 'CODE', 'DESCRIPTION', 'REASONCODE', 'REASONDESCRIPTION'],
+  allergies: [
+    'START', 'STOP', 'PATIENT', 'ENCOUNTER', 'CODE', 'SYSTEM', 'DESCRIPTION', 'TYPE', 'CATEGORY',
+    'REACTION1', 'DESCRIPTION1', 'SEVERITY1', 'REACTION2', 'DESCRIPTION2', 'SEVERITY2'
+  ],
+  devices: ['START', 'STOP', 'PATIENT', 'ENCOUNTER', 'CODE', 'DESCRIPTION', 'UDI'],
+  imaging_studies: [
+    'Id', 'DATE', 'PATIENT', 'ENCOUNTER', 'SERIES_UID', 'BODYSITE_CODE', 'BODYSITE_DESCRIPTION',
+    'MODALITY_CODE', 'MODALITY_DESCRIPTION', 'INSTANCE_UID', 'SOP_CODE', 'SOP_DESCRIPTION', 'PROCEDURE_CODE'
+  ]
+};
+
+export type CSVTable = keyof typeof CSV_HEADERS;
+
+export type CSVRows = Record<CSVTable, unknown[][]>;
+
+export interface CSVExportOptions {
+  // Keep rows already in the output files instead of starting them over
+  append?: boolean;
+}
+
+// Synthea writes some columns as dates and others as date-times
+function date(time?: number): string {
+  return time === undefined ? '' : new Date(time).toISOString().split('T')[0]!;
+}
+
+function dateTime(time?: number): string {
+  return time === undefined ? '' : new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function code(concept?: CodeableConcept): string {
+  return concept?.coding[0]?.code || '';
+}
+
+function description(concept?: CodeableConcept): string {
+  return concept?.coding[0]?.display || concept?.text || '';
+}
+
+// CSV Exporter. Rows are appended file by file as persons are exported, so
+// a population can be written in batches without holding it in memory.
+export class CSVExporter {
+  // Tables whose file has been started (header written or kept) by this exporter
+  private started = new Set<CSVTable>();
+  
+  constructor(
+    private outputDirectory: string,
+    private options: CSVExportOptions = {}
+  ) {}
+  
+  // Export a batch of persons, appending to the table files
+  async exportPersons(persons: Person[]): Promise<void> {
+    const batch = this.emptyRows();
+    
+    for (const person of persons) {
+      const rows = this.createRows(person);
+      for (const table of Object.keys(rows) as CSVTable[]) {
+        batch[table].push(...rows[table]);
+      }
+    }
+    
+    await mkdir(this.outputDirectory, { recursive: true });
+    
+    for (const table of Object.keys(batch) as CSVTable[]) {
+      await this.appendRows(table, batch[table]);
+    }
+  }
+  
+  // Export a single person
+  async exportPerson(person: Person): Promise<void> {
+    await this.exportPersons([person]);
+  }
+  
+  // Build the rows of every table for a person
+  createRows(person: Person): CSVRows {
+    const rows = this.emptyRows();
+    const patientId = person.id;
+    const record = person.record;
+    
+    rows.patients.push([
+      patientId,
+      date(person.birthDate.getTime()),
+      person.deathDate ? date(person.deathDate.getTime()) : '',
+      person.attributes.get('ssn'),
+      person.attributes.get('drivers'),
+      '', '',
+      person.attributes.get('first_name'),
+      '',
+      person.attributes.get('last_name'),
+      '', '',
+      person.attributes.get('marital_status'),
+      person.race,
+      person.ethnicity,
+      person.gender,
+      '',
+      person.attributes.get('address'),
+      person.location?.city,
+      person.location?.state,
+      '', '',
+      person.attributes.get('zip'),
+      person.location?.coordinates?.latitude,
+      person.location?.coordinates?.longitude,
+      '', '', ''
+    ]);
+    
+    for (const encounter of record.encounters) {
+      rows.encounters.push([
+        encounter.id,
+        dateTime(encounter.startTime),
+        dateTime(encounter.endTime),
+        patientId,
+        encounter.provider || '',
+        encounter.clinician || '',
+        '',
+        encounter.encounterClass,
+        code(encounter.codes),
+        description(encounter.codes),
+        '', '', '',
+        code(encounter.reason),
+        description(encounter.reason)
+      ]);
+    }
+    
+    for (const condition of record.conditions) {
+      rows.conditions.push([
+        date(condition.startTime),
+        date(condition.endTime),
+        patientId,
+        condition.encounter,
+        code(condition.codes),
+        description(condition.codes)
+      ]);
+    }
+    
+    for (const medication of record.medications) {
+      rows.medications.push([
+        dateTime(medication.startTime),
+        dateTime(medication.endTime),
+        patientId,
+        '',
+        medication.encounter,
+        code(medication.codes),
+        description(medication.codes),
+        '', '', '', '',
+        code(medication.reason),
+        description(medication.reason)
+      ]);
+    }
+    
+    for (const observation of record.observations) {
+      // Panels are written as their component observations
+      const observations = observation.observations?.length ? observation.observations : [observation];
+      for (const component of observations) {
+        rows.observations.push(this.observationRow(component, observation, patientId));
+      }
+    }
+    
+    for (const procedure of record.procedures) {
+      rows.procedures.push([
+        dateTime(procedure.startTime),
+        dateTime(procedure.endTime),
+        patientId,
+        procedure.encounter,
+        code(procedure.codes),
+        description(procedure.codes),
+        '',
+        code(procedure.reason),
+        description(procedure.reason)
+      ]);
+    }
+    
+    for (const immunization of record.immunizations) {
+      rows.immunizations.push([
+        dateTime(immunization.startTime),
+        patientId,
+        immunization.encounter,
+        code(immunization.codes),
+        description(immunization.codes),
+        ''
+      ]);
+    }
+    
+    for (const carePlan of record.carePlans) {
+      rows.careplans.push([
+        carePlan.id,
+        date(carePlan.startTime),
+        date(carePlan.endTime),
+        patientId,
+        carePlan.encounter,
+        code(carePlan.codes),
+        description(carePlan.codes),
+        code(carePlan.reason),
+        description(carePlan.reason)
+      ]);
+    }
+    
+    for (const allergy of record.allergies) {
+      const [first, second] = allergy.reactions || [];
+      rows.allergies.push([
+        date(allergy.startTime),
+        date(allergy.endTime),
+        patientId,
+        allergy.encounter,
+        code(allergy.codes),
+        allergy.codes.coding[0]?.system,
+        description(allergy.codes),
+        allergy.allergyType,
+        allergy.category,
+        code(first?.manifestation),
+        description(first?.manifestation),
+        first?.severity?.toUpperCase(),
+        code(second?.manifestation),
+        description(second?.manifestation),
+        second?.severity?.toUpperCase()
+      ]);
+    }
+    
+    for (const device of record.devices) {
+      rows.devices.push([
+        dateTime(device.startTime),
+        dateTime(device.endTime),
+        patientId,
+        device.encounter,
+        code(device.codes),
+        description(device.codes),
+        device.udi
+      ]);
+    }
+    
+    // One row per instance
+    for (const study of record.imagingStudies) {
+      for (const series of study.series || []) {
+        for (const instance of series.instances || []) {
+          rows.imaging_studies.push([
+            study.id,
+            dateTime(study.startTime),
+            patientId,
+            study.encounter,
+            series.uid,
+            code(series.bodySite),
+            description(series.bodySite),
+            code(series.modality),
+            description(series.modality),
+            instance.uid,
+            code(instance.sopClass),
+            description(instance.sopClass),
+            code(study.codes)
+          ]);
+        }
+      }
+    }
+    
+    return rows;
+  }
+  
+  private observationRow(observation: Observation, parent: Observation, patientId: string): unknown[] {
+    const value = observation.value;
+    const coded = value && typeof value === 'object' && 'coding' in value;
+    
+    return [
+      dateTime(observation.startTime),
+      patientId,
+      observation.encounter || parent.encounter,
+      observation.category || parent.category,
+      code(observation.codes),
+      description(observation.codes),
+      coded ? description(value) : value,
+      observation.unit,
+      typeof value === 'number' ? 'numeric' : 'text'
+    ];
+  }
+  
+  private emptyRows(): CSVRows {
+    const rows = {} as CSVRows;
+    for (const table of Object.keys(CSV_HEADERS) as CSVTable[]) {
+      rows[table] = [];
+    }
+    return rows;
+  }
+  
+  // Append rows to a table file. The first write from this exporter starts
+  // the file with its header, unless appending to a file that already has one.
+  private async appendRows(table: CSVTable, rows: unknown[][]): Promise<void> {
+    const filepath = join(this.outputDirectory, `${table}.csv`);
+    const content = rows.map(row => toCSVRow(row)).join('');
+    
+    if (!this.started.has(table)) {
+      this.started.add(table);
+      
+      if (!this.options.append || !(await hasContent(filepath))) {
+        await writeFile(filepath, toCSVRow(CSV_HEADERS[table]) + content);
+        return;
+      }
+    }
+    
+    if (content) {
+      await appendFile(filepath, content);
+    }
+  }
+}
+
+async function hasContent(filepath: string): Promise<boolean> {
+  try {
+    return (await stat(filepath)).size > 0;
+  } catch {
+    return false;
+  }
+}
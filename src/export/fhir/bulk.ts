@@ -0,0 +1,139 @@
+import { Person, Provider, Clinician } from '../../types/index.ts';
+import { FHIRExporter, FHIRBundle, sharedResourceId } from './index.ts';
+import { appendFile, mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Manifest in the shape of a FHIR Bulk Data $export status response. Output
+// urls are file names relative to the manifest.
+export interface BulkDataManifest {
+  transactionTime: string;
+  request: string;
+  requiresAccessToken: boolean;
+  output: {
+    type: string;
+    url: string;
+    count: number;
+  }[];
+  error: {
+    type: string;
+    url: string;
+  }[];
+}
+
+export interface BulkDataExportOptions {
+  // Request recorded in the manifest (default: '$export')
+  request?: string;
+  // Exporter creating the resources of each person
+  exporter?: FHIRExporter;
+}
+
+// Conditional references to shared resources (Organization?identifier=...),
+// which are only valid in transactions
+const CONDITIONAL_REFERENCE = /^([A-Za-z]+)\?identifier=/;
+
+// Literal reference for a reference of a transaction bundle: conditional
+// references point at the derived id of the shared resource, and fullUrls
+// of the bundle at their resource
+function literalReference(reference: string, fullUrls: Map<string, string>): string {
+  const conditional = CONDITIONAL_REFERENCE.exec(reference);
+  if (conditional) {
+    return `${conditional[1]}/${sharedResourceId(reference)}`;
+  }
+  
+  return fullUrls.get(reference) || reference;
+}
+
+// FHIR Bulk Data (NDJSON) Exporter. Resources are appended to one
+// <resourceType>.ndjson file per type as each person is exported, so the
+// population is never held in memory; finish() writes the manifest.
+export class FHIRBulkExporter {
+  private exporter: FHIRExporter;
+  private counts = new Map<string, number>();
+  private transactionTime = new Date();
+  
+  constructor(
+    private outputDirectory: string,
+    private options: BulkDataExportOptions = {}
+  ) {
+    this.exporter = options.exporter || new FHIRExporter();
+  }
+  
+  // Append the resources of a person to the NDJSON files
+  async exportPerson(person: Person): Promise<void> {
+    await this.writeBundle(this.exporter.exportPerson(person));
+  }
+  
+  async exportPersons(persons: Person[]): Promise<void> {
+    for (const person of persons) {
+      await this.exportPerson(person);
+    }
+  }
+  
+  // Append the shared Organization, Location and Practitioner resources
+  async exportProviders(providers: Provider[], clinicians: Clinician[]): Promise<void> {
+    await this.writeBundle(this.exporter.exportProviders(providers));
+    await this.writeBundle(this.exporter.exportClinicians(clinicians));
+  }
+  
+  // Append the resources of a bundle, with literal references as NDJSON
+  // resources are not part of a transaction
+  private async writeBundle(bundle: FHIRBundle): Promise<void> {
+    const lines = new Map<string, string[]>();
+    const fullUrls = new Map(bundle.entry.map(entry =>
+      [entry.fullUrl, `${entry.resource.resourceType}/${entry.resource.id}`]
+    ));
+    const resolve = (key: string, value: any) =>
+      key === 'reference' && typeof value === 'string' ? literalReference(value, fullUrls) : value;
+    
+    for (const entry of bundle.entry) {
+      const type = entry.resource.resourceType;
+      if (!lines.has(type)) {
+        lines.set(type, []);
+      }
+      lines.get(type)!.push(JSON.stringify(entry.resource, resolve) + '\n');
+    }
+    
+    await mkdir(this.outputDirectory, { recursive: true });
+    
+    for (const [type, typeLines] of lines) {
+      const filepath = join(this.outputDirectory, `${type}.ndjson`);
+      const content = typeLines.join('');
+      
+      // Files are started over the first time this export writes them
+      if (this.counts.has(type)) {
+        await appendFile(filepath, content);
+      } else {
+        await writeFile(filepath, content);
+      }
+      
+      this.counts.set(type, (this.counts.get(type) || 0) + typeLines.length);
+    }
+  }
+  
+  // Manifest of the files written so far
+  getManifest(): BulkDataManifest {
+    const types = Array.from(this.counts.keys()).sort();
+    
+    return {
+      transactionTime: this.transactionTime.toISOString(),
+      request: this.options.request || '$export',
+      requiresAccessToken: false,
+      output: types.map(type => ({
+        type,
+        url: `${type}.ndjson`,
+        count: this.counts.get(type)!
+      })),
+      error: []
+    };
+  }
+  
+  // Write the manifest once all persons are exported
+  async finish(): Promise<BulkDataManifest> {
+    const manifest = this.getManifest();
+    
+    await mkdir(this.outputDirectory, { recursive: true });
+    await writeFile(join(this.outputDirectory, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    
+    return manifest;
+  }
+}
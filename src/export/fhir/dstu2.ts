@@ -0,0 +1,430 @@
+import {
+  FHIRExporter,
+  FHIRR4Resource,
+  FHIRPatient,
+  FHIREncounter,
+  FHIRCondition,
+  FHIRMedicationRequest,
+  FHIRObservation,
+  FHIRProcedure,
+  FHIRImmunization,
+  FHIRDiagnosticReport,
+  FHIRCarePlan,
+  FHIRGoal,
+  FHIRAllergyIntolerance,
+  FHIRDevice,
+  FHIRImagingStudy,
+  FHIROrganization,
+  FHIRLocation,
+  FHIRPractitioner
+} from './index.ts';
+import { studyOid, toOid, convertOrganization, goalStatus } from './stu3.ts';
+import {
+  US_CORE_RACE_URL,
+  US_CORE_ETHNICITY_URL,
+  US_CORE_BIRTHSEX_URL,
+  IDENTIFIER_TYPE_SYSTEM,
+  MARITAL_STATUS_SYSTEM
+} from './us-core.ts';
+
+// Argonaut profiles and DSTU2 code systems replacing their US Core/R4 versions
+const ARGONAUT_URLS: Record<string, string> = {
+  [US_CORE_RACE_URL]: 'http://fhir.org/guides/argonaut/StructureDefinition/argo-race',
+  [US_CORE_ETHNICITY_URL]: 'http://fhir.org/guides/argonaut/StructureDefinition/argo-ethnicity',
+  [US_CORE_BIRTHSEX_URL]: 'http://fhir.org/guides/argonaut/StructureDefinition/argo-birthsex'
+};
+const ARGONAUT_PATIENT_PROFILE = 'http://fhir.org/guides/argonaut/StructureDefinition/argo-patient';
+const DSTU2_SYSTEMS: Record<string, string> = {
+  [IDENTIFIER_TYPE_SYSTEM]: 'http://hl7.org/fhir/v2/0203',
+  [MARITAL_STATUS_SYSTEM]: 'http://hl7.org/fhir/v3/MaritalStatus'
+};
+
+// Encounter classes of DSTU2
+const ENCOUNTER_CLASSES: Record<string, string> = {
+  inpatient: 'inpatient',
+  snf: 'inpatient',
+  hospice: 'inpatient',
+  emergency: 'emergency',
+  urgent: 'emergency',
+  home: 'home',
+  virtual: 'virtual'
+};
+
+// Allergy criticality codes of DSTU2
+const CRITICALITIES: Record<string, string> = {
+  low: 'CRITL',
+  high: 'CRITH',
+  'unable-to-assess': 'CRITU'
+};
+
+type CodeableConcept = FHIRCondition['code'];
+
+// FHIR DSTU2 types, described by how they differ from the R4 resources.
+// DSTU2 resources refer to the patient as `patient` and use single
+// CodeableConcepts where R4 has lists.
+export interface DSTU2Encounter extends Omit<FHIREncounter, 'class' | 'subject' | 'reasonCode'> {
+  class: string;
+  patient: {
+    reference: string;
+  };
+  reason?: FHIREncounter['reasonCode'];
+}
+
+export interface DSTU2Condition extends Omit<FHIRCondition, 'clinicalStatus' | 'verificationStatus' | 'subject'> {
+  clinicalStatus: string;
+  verificationStatus: string;
+  patient: {
+    reference: string;
+  };
+  dateRecorded: string;
+}
+
+export interface DSTU2MedicationOrder {
+  resourceType: 'MedicationOrder';
+  id: string;
+  status: string;
+  dateWritten: string;
+  dateEnded?: string;
+  reasonEnded?: CodeableConcept;
+  patient: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  medicationCodeableConcept: CodeableConcept;
+  reasonCodeableConcept?: CodeableConcept;
+  dosageInstruction?: Array<{
+    text?: string;
+    timing?: {
+      repeat?: {
+        frequency?: number;
+        period?: number;
+        periodUnit?: string;
+      };
+    };
+    doseQuantity?: {
+      value: number;
+      unit: string;
+    };
+  }>;
+}
+
+export interface DSTU2Observation extends Omit<FHIRObservation, 'category'> {
+  category?: NonNullable<FHIRObservation['category']>[number];
+}
+
+export interface DSTU2Procedure extends Omit<FHIRProcedure, 'reasonCode'> {
+  reasonCodeableConcept?: CodeableConcept;
+}
+
+export interface DSTU2Immunization extends Omit<FHIRImmunization, 'occurrenceDateTime' | 'primarySource' | 'protocolApplied'> {
+  date: string;
+  wasNotGiven: boolean;
+  reported: boolean;
+}
+
+export interface DSTU2DiagnosticReport extends Omit<FHIRDiagnosticReport, 'category' | 'performer'> {
+  category?: NonNullable<FHIRDiagnosticReport['category']>[number];
+  performer: NonNullable<FHIRDiagnosticReport['performer']>[number];
+}
+
+export interface DSTU2CarePlan extends Omit<FHIRCarePlan, 'intent' | 'encounter' | 'careTeam'> {}
+
+export interface DSTU2Goal extends Omit<FHIRGoal, 'lifecycleStatus' | 'description'> {
+  status: string;
+  description: string;
+}
+
+export interface DSTU2AllergyIntolerance extends Omit<FHIRAllergyIntolerance, 'clinicalStatus' | 'verificationStatus' | 'category' | 'code' | 'encounter'> {
+  status: string;
+  category?: string;
+  substance: CodeableConcept;
+}
+
+export interface DSTU2Device {
+  resourceType: 'Device';
+  id: string;
+  type: CodeableConcept;
+  status: 'available' | 'not-available';
+  udi?: string;
+  manufacturer?: string;
+  model?: string;
+  manufactureDate?: string;
+  expiry?: string;
+  lotNumber?: string;
+  patient: {
+    reference: string;
+  };
+}
+
+export interface DSTU2ImagingStudy {
+  resourceType: 'ImagingStudy';
+  id: string;
+  uid: string;
+  started: string;
+  patient: {
+    reference: string;
+  };
+  numberOfSeries: number;
+  numberOfInstances: number;
+  series: Array<{
+    uid: string;
+    number?: number;
+    availability: 'ONLINE';
+    modality: FHIRImagingStudy['series'][number]['modality'];
+    bodySite?: FHIRImagingStudy['series'][number]['bodySite'];
+    numberOfInstances: number;
+    started: string;
+    instance: Array<{
+      uid: string;
+      number?: number;
+      sopClass: string;
+      title?: string;
+    }>;
+  }>;
+}
+
+export interface DSTU2Practitioner extends Omit<FHIRPractitioner, 'name'> {
+  name: FHIRPractitioner['name'][number];
+}
+
+export type DSTU2Resource =
+  | FHIRPatient
+  | DSTU2Encounter
+  | DSTU2Condition
+  | DSTU2MedicationOrder
+  | DSTU2Observation
+  | DSTU2Procedure
+  | DSTU2Immunization
+  | DSTU2DiagnosticReport
+  | DSTU2CarePlan
+  | DSTU2Goal
+  | DSTU2AllergyIntolerance
+  | DSTU2Device
+  | DSTU2ImagingStudy
+  | FHIROrganization
+  | FHIRLocation
+  | DSTU2Practitioner;
+
+function date(dateTime: string): string {
+  return dateTime.split('T')[0]!;
+}
+
+// FHIR DSTU2 Exporter. Builds the same resources as the R4 exporter and
+// reshapes them to DSTU2 with the Argonaut patient profile. DSTU2 has no
+// CareTeam, and SupplyDelivery can only reference a supplied item, so both
+// are left out; encounter references are dropped where DSTU2 has none.
+export class FHIRDSTU2Exporter extends FHIRExporter {
+  protected override convertResource(resource: FHIRR4Resource): DSTU2Resource | undefined {
+    switch (resource.resourceType) {
+      case 'Patient':
+        return this.convertPatient(resource);
+      case 'Encounter': {
+        const { class: encounterClass, subject, reasonCode, ...encounter } = resource;
+        const converted: DSTU2Encounter = {
+          ...encounter,
+          class: ENCOUNTER_CLASSES[encounterClass.code] || 'ambulatory',
+          patient: subject
+        };
+        if (reasonCode) {
+          converted.reason = reasonCode;
+        }
+        return converted;
+      }
+      case 'Condition': {
+        const { subject, ...condition } = resource;
+        return {
+          ...condition,
+          clinicalStatus: resource.clinicalStatus.coding[0]?.code || 'active',
+          verificationStatus: 'confirmed',
+          patient: subject,
+          dateRecorded: date(resource.onsetDateTime)
+        };
+      }
+      case 'MedicationRequest':
+        return this.convertMedicationRequest(resource);
+      case 'Observation': {
+        const { category, ...observation } = resource;
+        return category?.[0] ? { ...observation, category: category[0] } : observation;
+      }
+      case 'Procedure': {
+        const { reasonCode, ...procedure } = resource;
+        return reasonCode?.[0] ? { ...procedure, reasonCodeableConcept: reasonCode[0] } : procedure;
+      }
+      case 'Immunization': {
+        const { occurrenceDateTime, primarySource, protocolApplied, ...immunization } = resource;
+        return { ...immunization, date: occurrenceDateTime, wasNotGiven: false, reported: !primarySource };
+      }
+      case 'DiagnosticReport': {
+        // The performer is required; reports of encounters without a
+        // provider name none
+        const { category, performer, ...rest } = resource;
+        const report: DSTU2DiagnosticReport = { ...rest, performer: performer?.[0] || { display: 'Unknown' } };
+        if (category?.[0]) {
+          report.category = category[0];
+        }
+        return report;
+      }
+      case 'CarePlan': {
+        const { intent, encounter, careTeam, ...carePlan } = resource;
+        return carePlan;
+      }
+      case 'Goal': {
+        // The description is plain text
+        const { lifecycleStatus, description, ...goal } = resource;
+        return { ...goal, status: goalStatus(resource), description: description.text };
+      }
+      case 'AllergyIntolerance':
+        return this.convertAllergyIntolerance(resource);
+      case 'Device':
+        return this.convertDevice(resource);
+      case 'ImagingStudy':
+        return this.convertImagingStudy(resource);
+      case 'Organization':
+        return convertOrganization(resource);
+      case 'Location':
+        return resource;
+      case 'Practitioner': {
+        const { name, ...practitioner } = resource;
+        return { ...practitioner, name: name[0]! };
+      }
+      case 'CareTeam':
+      case 'SupplyDelivery':
+        return undefined;
+    }
+  }
+  
+  private convertPatient(resource: FHIRPatient): FHIRPatient {
+    const system = (value: string) => DSTU2_SYSTEMS[value] || value;
+    
+    const patient: FHIRPatient = {
+      ...resource,
+      meta: {
+        profile: [ARGONAUT_PATIENT_PROFILE]
+      },
+      extension: resource.extension?.map(extension => ({
+        ...extension,
+        url: ARGONAUT_URLS[extension.url] || extension.url
+      })),
+      identifier: resource.identifier?.map(identifier => ({
+        ...identifier,
+        type: identifier.type && {
+          ...identifier.type,
+          coding: identifier.type.coding.map(coding => ({ ...coding, system: system(coding.system) }))
+        }
+      }))
+    };
+    
+    if (resource.maritalStatus) {
+      patient.maritalStatus = {
+        ...resource.maritalStatus,
+        coding: resource.maritalStatus.coding.map(coding => ({ ...coding, system: system(coding.system) }))
+      };
+    }
+    
+    return patient;
+  }
+  
+  private convertMedicationRequest(resource: FHIRMedicationRequest): DSTU2MedicationOrder {
+    const order: DSTU2MedicationOrder = {
+      resourceType: 'MedicationOrder',
+      id: resource.id,
+      status: resource.status,
+      dateWritten: resource.authoredOn,
+      patient: resource.subject,
+      medicationCodeableConcept: resource.medicationCodeableConcept
+    };
+    
+    if (resource.encounter) {
+      order.encounter = resource.encounter;
+    }
+    if (resource.reasonCode?.[0]) {
+      order.reasonCodeableConcept = resource.reasonCode[0];
+    }
+    if (resource.statusReason) {
+      order.reasonEnded = resource.statusReason;
+    }
+    if (resource.dosageInstruction) {
+      order.dosageInstruction = resource.dosageInstruction.map(dosage => ({
+        text: dosage.text,
+        timing: dosage.timing,
+        doseQuantity: dosage.doseAndRate?.[0]?.doseQuantity
+      }));
+    }
+    
+    return order;
+  }
+  
+  private convertAllergyIntolerance(resource: FHIRAllergyIntolerance): DSTU2AllergyIntolerance {
+    const { clinicalStatus, verificationStatus, category, code, encounter, criticality, ...allergy } = resource;
+    const converted: DSTU2AllergyIntolerance = {
+      ...allergy,
+      status: clinicalStatus.coding[0]?.code === 'resolved' ? 'resolved' : 'active',
+      substance: code
+    };
+    
+    if (criticality) {
+      converted.criticality = CRITICALITIES[criticality] || criticality;
+    }
+    // DSTU2 has no biologic category
+    if (category?.[0]) {
+      converted.category = category[0] === 'biologic' ? 'other' : category[0];
+    }
+    
+    return converted;
+  }
+  
+  private convertDevice(resource: FHIRDevice): DSTU2Device {
+    const device: DSTU2Device = {
+      resourceType: 'Device',
+      id: resource.id,
+      type: resource.type,
+      status: resource.status === 'active' ? 'available' : 'not-available',
+      patient: resource.patient
+    };
+    
+    if (resource.udiCarrier?.[0]) {
+      device.udi = resource.udiCarrier[0].carrierHRF;
+    }
+    if (resource.manufacturer) {
+      device.manufacturer = resource.manufacturer;
+    }
+    if (resource.modelNumber) {
+      device.model = resource.modelNumber;
+    }
+    if (resource.manufactureDate) {
+      device.manufactureDate = resource.manufactureDate;
+    }
+    if (resource.expirationDate) {
+      device.expiry = resource.expirationDate;
+    }
+    if (resource.lotNumber) {
+      device.lotNumber = resource.lotNumber;
+    }
+    
+    return device;
+  }
+  
+  private convertImagingStudy(resource: FHIRImagingStudy): DSTU2ImagingStudy {
+    return {
+      resourceType: 'ImagingStudy',
+      id: resource.id,
+      uid: studyOid(resource),
+      started: resource.started,
+      patient: resource.subject,
+      numberOfSeries: resource.numberOfSeries,
+      numberOfInstances: resource.numberOfInstances,
+      series: resource.series.map(s => ({
+        ...s,
+        uid: toOid(s.uid),
+        availability: 'ONLINE',
+        instance: s.instance.map(instance => ({
+          ...instance,
+          uid: toOid(instance.uid),
+          sopClass: toOid(instance.sopClass.code)
+        }))
+      }))
+    };
+  }
+}
@@ -1,4 +1,27 @@
-import { Person, HealthRecord, Encounter, Condition, Medication, Observation, Procedure } from '../../types/index.ts';
+import { Person, HealthRecord, Provider, Clinician, Encounter, Condition, Medication, Observation, Procedure, DiagnosticReport, CarePlan, CarePlanGoal, CodeableConcept, Allergy, Device, Supply, ImagingStudy, Immunization } from '../../types/index.ts';
+import { generateUUID, nameUUID } from '../../utils/uuid.ts';
+import {
+  US_CORE_RACE_URL,
+  US_CORE_ETHNICITY_URL,
+  US_CORE_BIRTHSEX_URL,
+  GEOLOCATION_URL,
+  RACE_ETHNICITY_SYSTEM,
+  IDENTIFIER_TYPE_SYSTEM,
+  MARITAL_STATUS_SYSTEM,
+  LANGUAGE_SYSTEM,
+  MRN_SYSTEM,
+  SSN_SYSTEM,
+  PROVIDER_SYSTEM,
+  NPI_SYSTEM,
+  ORGANIZATION_TYPE_SYSTEM,
+  OMB_RACE_CODES,
+  OMB_ETHNICITY_CODES,
+  MARITAL_STATUSES,
+  LANGUAGES,
+  driversLicenseSystem
+} from './us-core.ts';
+import type { STU3Resource } from './stu3.ts';
+import type { DSTU2Resource } from './dstu2.ts';
 
 // FHIR R4 types (simplified for POC)
 export interface FHIRBundle {
@@ -13,21 +36,61 @@ export interface BundleEntry {
   request?: {
     method: 'POST' | 'PUT';
     url: string;
+    ifNoneExist?: string;
   };
 }
 
-export type FHIRResource = 
+// Resources of any exported FHIR version
+export type FHIRResource = FHIRR4Resource | STU3Resource | DSTU2Resource;
+
+export type FHIRR4Resource = 
   | FHIRPatient 
   | FHIREncounter 
   | FHIRCondition 
   | FHIRMedicationRequest
   | FHIRObservation
-  | FHIRProcedure;
+  | FHIRProcedure
+  | FHIRImmunization
+  | FHIRDiagnosticReport
+  | FHIRCarePlan
+  | FHIRCareTeam
+  | FHIRGoal
+  | FHIRAllergyIntolerance
+  | FHIRDevice
+  | FHIRSupplyDelivery
+  | FHIRImagingStudy
+  | FHIROrganization
+  | FHIRLocation
+  | FHIRPractitioner;
 
 export interface FHIRPatient {
   resourceType: 'Patient';
   id: string;
+  meta?: {
+    profile: string[];
+  };
+  extension?: Array<{
+    url: string;
+    valueCode?: string;
+    extension?: Array<{
+      url: string;
+      valueCoding?: {
+        system: string;
+        code: string;
+        display: string;
+      };
+      valueString?: string;
+    }>;
+  }>;
   identifier?: Array<{
+    type?: {
+      coding: Array<{
+        system: string;
+        code: string;
+        display: string;
+      }>;
+      text: string;
+    };
     system: string;
     value: string;
   }>;
@@ -36,10 +99,22 @@ export interface FHIRPatient {
     family: string;
     given: string[];
   }>;
+  telecom?: Array<{
+    system: string;
+    value: string;
+    use: string;
+  }>;
   gender: string;
   birthDate: string;
   deceasedDateTime?: string;
   address?: Array<{
+    extension?: Array<{
+      url: string;
+      extension: Array<{
+        url: string;
+        valueDecimal: number;
+      }>;
+    }>;
     use: string;
     line: string[];
     city: string;
@@ -47,6 +122,26 @@ export interface FHIRPatient {
     postalCode: string;
     country: string;
   }>;
+  maritalStatus?: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display: string;
+    }>;
+    text: string;
+  };
+  multipleBirthBoolean?: boolean;
+  multipleBirthInteger?: number;
+  communication?: Array<{
+    language: {
+      coding: Array<{
+        system: string;
+        code: string;
+        display: string;
+      }>;
+      text: string;
+    };
+  }>;
 }
 
 export interface FHIREncounter {
@@ -69,6 +164,11 @@ export interface FHIREncounter {
   subject: {
     reference: string;
   };
+  participant?: Array<{
+    individual: {
+      reference: string;
+    };
+  }>;
   period: {
     start: string;
     end?: string;
@@ -80,6 +180,24 @@ export interface FHIREncounter {
       display?: string;
     }>;
   }>;
+  hospitalization?: {
+    dischargeDisposition: {
+      coding: Array<{
+        system: string;
+        code: string;
+        display?: string;
+      }>;
+      text?: string;
+    };
+  };
+  location?: Array<{
+    location: {
+      reference: string;
+    };
+  }>;
+  serviceProvider?: {
+    reference: string;
+  };
 }
 
 export interface FHIRCondition {
@@ -135,6 +253,27 @@ export interface FHIRMedicationRequest {
     reference: string;
   };
   authoredOn: string;
+  dispenseRequest?: {
+    performer: {
+      reference: string;
+    };
+  };
+  reasonCode?: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  }>;
+  statusReason?: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
   dosageInstruction?: Array<{
     text?: string;
     timing?: {
@@ -181,12 +320,35 @@ export interface FHIRObservation {
   effectiveDateTime: string;
   valueQuantity?: {
     value: number;
-    unit: string;
+    unit?: string;
     system?: string;
     code?: string;
   };
+  valueCodeableConcept?: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
   valueString?: string;
   valueBoolean?: boolean;
+  component?: Array<{
+    code: {
+      coding: Array<{
+        system: string;
+        code: string;
+        display?: string;
+      }>;
+      text?: string;
+    };
+    valueQuantity?: {
+      value: number;
+      unit?: string;
+    };
+    valueString?: string;
+  }>;
 }
 
 export interface FHIRProcedure {
@@ -212,140 +374,749 @@ export interface FHIRProcedure {
     start: string;
     end?: string;
   };
+  reasonCode?: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  }>;
 }
 
-// FHIR Exporter
-export class FHIRExporter {
-  // Export a person to a FHIR Bundle
-  exportPerson(person: Person): FHIRBundle {
-    const bundle: FHIRBundle = {
-      resourceType: 'Bundle',
-      type: 'transaction',
-      entry: []
+export interface FHIRImmunization {
+  resourceType: 'Immunization';
+  id: string;
+  status: 'completed';
+  vaccineCode: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
+  patient: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  occurrenceDateTime: string;
+  primarySource: boolean;
+  doseQuantity?: {
+    value: number;
+    unit: string;
+    system: string;
+    code: string;
+  };
+  protocolApplied?: Array<{
+    series?: string;
+    doseNumberPositiveInt: number;
+  }>;
+}
+
+export interface FHIRDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id: string;
+  status: string;
+  category?: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+  }>;
+  code: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
+  subject: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  effectiveDateTime: string;
+  issued: string;
+  performer?: Array<{
+    reference?: string;
+    display?: string;
+  }>;
+  result?: Array<{
+    reference: string;
+  }>;
+}
+
+export interface FHIRCarePlan {
+  resourceType: 'CarePlan';
+  id: string;
+  status: string;
+  intent: string;
+  category: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  }>;
+  subject: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  period: {
+    start: string;
+    end?: string;
+  };
+  careTeam?: Array<{
+    reference: string;
+  }>;
+  addresses?: Array<{
+    reference: string;
+  }>;
+  goal?: Array<{
+    reference: string;
+  }>;
+  activity?: Array<{
+    detail: {
+      code: {
+        coding: Array<{
+          system: string;
+          code: string;
+          display?: string;
+        }>;
+        text?: string;
+      };
+      status: string;
     };
-    
-    // Add Patient resource
-    const patient = this.createPatient(person);
-    bundle.entry.push({
-      fullUrl: `urn:uuid:${person.id}`,
-      resource: patient,
-      request: {
-        method: 'POST',
-        url: 'Patient'
-      }
-    });
-    
-    // Add Encounters
-    for (const encounter of person.record.encounters) {
-      const fhirEncounter = this.createEncounter(encounter, person.id);
-      bundle.entry.push({
-        fullUrl: `urn:uuid:${encounter.id}`,
-        resource: fhirEncounter,
-        request: {
-          method: 'POST',
-          url: 'Encounter'
-        }
-      });
-    }
-    
-    // Add Conditions
-    for (const condition of person.record.conditions) {
-      const fhirCondition = this.createCondition(condition, person.id);
-      bundle.entry.push({
-        fullUrl: `urn:uuid:${condition.id}`,
-        resource: fhirCondition,
-        request: {
-          method: 'POST',
-          url: 'Condition'
-        }
-      });
-    }
-    
-    // Add Medications
-    for (const medication of person.record.medications) {
-      const fhirMedication = this.createMedicationRequest(medication, person.id);
-      bundle.entry.push({
-        fullUrl: `urn:uuid:${medication.id}`,
-        resource: fhirMedication,
-        request: {
-          method: 'POST',
-          url: 'MedicationRequest'
-        }
-      });
-    }
-    
-    // Add Observations
-    for (const observation of person.record.observations) {
-      const fhirObservation = this.createObservation(observation, person.id);
-      bundle.entry.push({
-        fullUrl: `urn:uuid:${observation.id}`,
-        resource: fhirObservation,
-        request: {
-          method: 'POST',
-          url: 'Observation'
-        }
-      });
-    }
-    
-    // Add Procedures
-    for (const procedure of person.record.procedures) {
-      const fhirProcedure = this.createProcedure(procedure, person.id);
-      bundle.entry.push({
-        fullUrl: `urn:uuid:${procedure.id}`,
-        resource: fhirProcedure,
-        request: {
-          method: 'POST',
-          url: 'Procedure'
-        }
-      });
-    }
-    
-    return bundle;
-  }
-  
-  private createPatient(person: Person): FHIRPatient {
-    const patient: FHIRPatient = {
-      resourceType: 'Patient',
-      id: person.id,
-      name: [{
-        use: 'official',
-        family: person.attributes.get('last_name') || 'Doe',
-        given: [person.attributes.get('first_name') || 'John']
-      }],
-      gender: person.gender === 'M' ? 'male' : 'female',
-      birthDate: person.birthDate.toISOString().split('T')[0]!
+  }>;
+}
+
+export interface FHIRGoal {
+  resourceType: 'Goal';
+  id: string;
+  lifecycleStatus: string;
+  description: {
+    text: string;
+  };
+  subject: {
+    reference: string;
+  };
+  addresses?: Array<{
+    reference: string;
+  }>;
+}
+
+export interface FHIRCareTeam {
+  resourceType: 'CareTeam';
+  id: string;
+  status: string;
+  subject: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  period: {
+    start: string;
+    end?: string;
+  };
+  participant: Array<{
+    role: Array<{
+      coding: Array<{
+        system: string;
+        code: string;
+        display?: string;
+      }>;
+    }>;
+    member: {
+      reference: string;
     };
-    
-    if (person.deathDate) {
-      patient.deceasedDateTime = person.deathDate.toISOString();
-    }
-    
-    if (person.location) {
-      patient.address = [{
-        use: 'home',
-        line: [person.attributes.get('address') || '123 Main St'],
-        city: person.location.city,
-        state: person.location.state,
-        postalCode: person.attributes.get('zip') || '00000',
-        country: person.location.country || 'US'
-      }];
-    }
-    
-    return patient;
-  }
-  
-  private createEncounter(encounter: Encounter, patientId: string): FHIREncounter {
-    return {
-      resourceType: 'Encounter',
-      id: encounter.id,
-      status: encounter.endTime ? 'finished' : 'in-progress',
-      class: {
-        system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
-        code: encounter.encounterClass,
-        display: encounter.encounterClass
-      },
-      type: [{
-        coding: encounter.codes.coding,
+  }>;
+  reasonCode?: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  }>;
+}
+
+export interface FHIRAllergyIntolerance {
+  resourceType: 'AllergyIntolerance';
+  id: string;
+  clinicalStatus: {
+    coding: Array<{
+      system: string;
+      code: string;
+    }>;
+  };
+  verificationStatus: {
+    coding: Array<{
+      system: string;
+      code: string;
+    }>;
+  };
+  type?: string;
+  category?: string[];
+  criticality?: string;
+  code: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
+  patient: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  recordedDate: string;
+  lastOccurrence?: string;
+  reaction?: Array<{
+    manifestation: Array<{
+      coding: Array<{
+        system: string;
+        code: string;
+        display?: string;
+      }>;
+      text?: string;
+    }>;
+    severity?: string;
+  }>;
+}
+
+export interface FHIRDevice {
+  resourceType: 'Device';
+  id: string;
+  udiCarrier?: Array<{
+    deviceIdentifier: string;
+    carrierHRF: string;
+  }>;
+  status: 'active' | 'inactive';
+  distinctIdentifier?: string;
+  manufacturer?: string;
+  manufactureDate?: string;
+  expirationDate?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+  deviceName?: Array<{
+    name: string;
+    type: 'udi-label-name' | 'user-friendly-name' | 'manufacturer-name' | 'model-name';
+  }>;
+  modelNumber?: string;
+  type: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  };
+  patient: {
+    reference: string;
+  };
+}
+
+export interface FHIRSupplyDelivery {
+  resourceType: 'SupplyDelivery';
+  id: string;
+  status: 'completed';
+  patient: {
+    reference: string;
+  };
+  type: {
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+  };
+  suppliedItem: {
+    quantity: {
+      value: number;
+    };
+    itemCodeableConcept: {
+      coding: Array<{
+        system: string;
+        code: string;
+        display?: string;
+      }>;
+      text?: string;
+    };
+  };
+  occurrenceDateTime: string;
+}
+
+export interface FHIRImagingStudy {
+  resourceType: 'ImagingStudy';
+  id: string;
+  identifier?: Array<{
+    use: string;
+    system: string;
+    value: string;
+  }>;
+  status: 'available';
+  subject: {
+    reference: string;
+  };
+  encounter?: {
+    reference: string;
+  };
+  started: string;
+  procedureCode?: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display?: string;
+    }>;
+    text?: string;
+  }>;
+  numberOfSeries: number;
+  numberOfInstances: number;
+  series: Array<{
+    uid: string;
+    number?: number;
+    modality: {
+      system: string;
+      code: string;
+      display?: string;
+    };
+    bodySite?: {
+      system: string;
+      code: string;
+      display?: string;
+    };
+    numberOfInstances: number;
+    started: string;
+    instance: Array<{
+      uid: string;
+      sopClass: {
+        system: string;
+        code: string;
+        display?: string;
+      };
+      number?: number;
+      title?: string;
+    }>;
+  }>;
+}
+
+export interface FHIROrganization {
+  resourceType: 'Organization';
+  id: string;
+  identifier: Array<{
+    system: string;
+    value: string;
+  }>;
+  active: boolean;
+  type: Array<{
+    coding: Array<{
+      system: string;
+      code: string;
+      display: string;
+    }>;
+    text: string;
+  }>;
+  name: string;
+  telecom?: Array<{
+    system: string;
+    value: string;
+  }>;
+  address?: Array<{
+    line: string[];
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country: string;
+  }>;
+}
+
+export interface FHIRLocation {
+  resourceType: 'Location';
+  id: string;
+  identifier: Array<{
+    system: string;
+    value: string;
+  }>;
+  status: 'active';
+  name: string;
+  telecom?: FHIROrganization['telecom'];
+  address?: NonNullable<FHIROrganization['address']>[number];
+  position?: {
+    latitude: number;
+    longitude: number;
+  };
+  managingOrganization: {
+    reference: string;
+  };
+}
+
+export interface FHIRPractitioner {
+  resourceType: 'Practitioner';
+  id: string;
+  identifier: Array<{
+    system: string;
+    value: string;
+  }>;
+  active: boolean;
+  name: Array<{
+    family: string;
+    given: string[];
+    prefix: string[];
+  }>;
+  gender: string;
+}
+
+// Search for a shared resource by identifier: the ifNoneExist query of its
+// conditional create, and (prefixed with the resource type) the conditional
+// reference patient bundles use for it
+function identifierQuery(system: string, value: string): string {
+  return `identifier=${system}|${value}`;
+}
+
+// Id of a shared resource: a UUID derived from the conditional reference to
+// it, so it is the same in every export and is valid in urn:uuid: fullUrls
+export function sharedResourceId(reference: string): string {
+  return nameUUID(reference);
+}
+
+// FHIR Exporter
+export class FHIRExporter {
+  // Export a person to a FHIR Bundle
+  exportPerson(person: Person): FHIRBundle {
+    const bundle: FHIRBundle = {
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: []
+    };
+    
+    // Add Patient resource
+    this.addEntry(bundle, this.createPatient(person));
+    
+    // Add Encounters
+    for (const encounter of person.record.encounters) {
+      this.addEntry(bundle, this.createEncounter(encounter, person.id));
+    }
+    
+    // Add Conditions
+    for (const condition of person.record.conditions) {
+      this.addEntry(bundle, this.createCondition(condition, person.id));
+    }
+    
+    // Add Medications
+    for (const medication of person.record.medications) {
+      this.addEntry(bundle, this.createMedicationRequest(medication, person.id));
+    }
+    
+    // Add Observations
+    for (const observation of person.record.observations) {
+      this.addEntry(bundle, this.createObservation(observation, person.id));
+    }
+    
+    // Add Procedures
+    for (const procedure of person.record.procedures) {
+      this.addEntry(bundle, this.createProcedure(procedure, person.id));
+    }
+    
+    // Add Immunizations
+    for (const immunization of person.record.immunizations) {
+      this.addEntry(bundle, this.createImmunization(immunization, person.id));
+    }
+    
+    // Add Diagnostic Reports
+    for (const report of person.record.reports) {
+      this.addEntry(bundle, this.createDiagnosticReport(report, person));
+    }
+    
+    // Add Allergies
+    for (const allergy of person.record.allergies) {
+      this.addEntry(bundle, this.createAllergyIntolerance(allergy, person.id));
+    }
+    
+    // Add Care Plans, each with the care team carrying it out and its goals
+    for (const carePlan of person.record.carePlans) {
+      const careTeam = this.createCareTeam(carePlan, person.id);
+      this.addEntry(bundle, careTeam);
+      
+      const goals = (carePlan.goals || []).map(goal => this.createGoal(goal, carePlan, person));
+      for (const goal of goals) {
+        this.addEntry(bundle, goal);
+      }
+      
+      this.addEntry(bundle, this.createCarePlan(carePlan, person, careTeam.id, goals));
+    }
+    
+    // Add Devices
+    for (const device of person.record.devices) {
+      this.addEntry(bundle, this.createDevice(device, person.id));
+    }
+    
+    // Add Supplies
+    for (const supply of person.record.supplies) {
+      this.addEntry(bundle, this.createSupplyDelivery(supply, person.id));
+    }
+    
+    // Add Imaging Studies
+    for (const study of person.record.imagingStudies) {
+      this.addEntry(bundle, this.createImagingStudy(study, person.id));
+    }
+    
+    return bundle;
+  }
+  
+  // Export providers to a hospital bundle with the Organization and Location
+  // of each. The resources are conditional creates, so the bundle can be
+  // uploaded again without duplicating them; upload it before the patient
+  // bundles referencing the providers.
+  exportProviders(providers: Provider[]): FHIRBundle {
+    const bundle: FHIRBundle = {
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: []
+    };
+    
+    for (const provider of providers) {
+      const ifNoneExist = identifierQuery(PROVIDER_SYSTEM, provider.id);
+      this.addEntry(bundle, this.createOrganization(provider), ifNoneExist);
+      this.addEntry(bundle, this.createLocation(provider), ifNoneExist);
+    }
+    
+    return bundle;
+  }
+  
+  // Export clinicians to a practitioner bundle of conditional creates
+  exportClinicians(clinicians: Clinician[]): FHIRBundle {
+    const bundle: FHIRBundle = {
+      resourceType: 'Bundle',
+      type: 'transaction',
+      entry: []
+    };
+    
+    for (const clinician of clinicians) {
+      this.addEntry(bundle, this.createPractitioner(clinician), identifierQuery(NPI_SYSTEM, clinician.id));
+    }
+    
+    return bundle;
+  }
+  
+  // Add a resource to a transaction bundle, converted to the exported FHIR version
+  private addEntry(bundle: FHIRBundle, resource: FHIRR4Resource, ifNoneExist?: string): void {
+    const converted = this.convertResource(resource);
+    if (!converted) {
+      return;
+    }
+    
+    const entry: BundleEntry = {
+      fullUrl: `urn:uuid:${converted.id}`,
+      resource: converted,
+      request: {
+        method: 'POST',
+        url: converted.resourceType
+      }
+    };
+    
+    if (ifNoneExist) {
+      entry.request!.ifNoneExist = ifNoneExist;
+    }
+    
+    bundle.entry.push(entry);
+  }
+  
+  // Resources are built in R4. Exporters for other FHIR versions override
+  // this to reshape them, or return undefined to leave a resource out when
+  // the version has no such resource type.
+  protected convertResource(resource: FHIRR4Resource): FHIRResource | undefined {
+    return resource;
+  }
+  
+  private createPatient(person: Person): FHIRPatient {
+    const patient: FHIRPatient = {
+      resourceType: 'Patient',
+      id: person.id,
+      meta: {
+        profile: ['http://hl7.org/fhir/us/core/StructureDefinition/us-core-patient']
+      },
+      extension: [
+        this.createRaceEthnicityExtension(US_CORE_RACE_URL, person.race, OMB_RACE_CODES),
+        this.createRaceEthnicityExtension(US_CORE_ETHNICITY_URL, person.ethnicity, OMB_ETHNICITY_CODES),
+        {
+          url: US_CORE_BIRTHSEX_URL,
+          valueCode: person.gender
+        }
+      ],
+      identifier: this.createPatientIdentifiers(person),
+      name: [{
+        use: 'official',
+        family: person.attributes.get('last_name') || 'Doe',
+        given: [person.attributes.get('first_name') || 'John']
+      }],
+      gender: person.gender === 'M' ? 'male' : 'female',
+      birthDate: person.birthDate.toISOString().split('T')[0]!
+    };
+    
+    const phone = person.attributes.get('telecom');
+    if (phone) {
+      patient.telecom = [{
+        system: 'phone',
+        value: phone,
+        use: 'home'
+      }];
+    }
+    
+    if (person.deathDate) {
+      patient.deceasedDateTime = person.deathDate.toISOString();
+    }
+    
+    if (person.location) {
+      patient.address = [{
+        use: 'home',
+        line: [person.attributes.get('address') || '123 Main St'],
+        city: person.location.city,
+        state: person.location.state,
+        postalCode: person.attributes.get('zip') || '00000',
+        country: person.location.country || 'US'
+      }];
+      
+      if (person.location.coordinates) {
+        patient.address[0]!.extension = [{
+          url: GEOLOCATION_URL,
+          extension: [
+            { url: 'latitude', valueDecimal: person.location.coordinates.latitude },
+            { url: 'longitude', valueDecimal: person.location.coordinates.longitude }
+          ]
+        }];
+      }
+    }
+    
+    const maritalStatus = person.attributes.get('marital_status');
+    if (maritalStatus && MARITAL_STATUSES[maritalStatus]) {
+      patient.maritalStatus = {
+        coding: [{
+          system: MARITAL_STATUS_SYSTEM,
+          code: maritalStatus,
+          display: MARITAL_STATUSES[maritalStatus]
+        }],
+        text: MARITAL_STATUSES[maritalStatus]
+      };
+    }
+    
+    const multipleBirth = person.attributes.get('multiple_birth');
+    if (typeof multipleBirth === 'number') {
+      patient.multipleBirthInteger = multipleBirth;
+    } else if (multipleBirth !== undefined) {
+      patient.multipleBirthBoolean = Boolean(multipleBirth);
+    }
+    
+    const language = LANGUAGES[person.attributes.get('language') || 'English'];
+    if (language) {
+      patient.communication = [{
+        language: {
+          coding: [{
+            system: LANGUAGE_SYSTEM,
+            code: language.code,
+            display: language.display
+          }],
+          text: language.display
+        }
+      }];
+    }
+    
+    return patient;
+  }
+  
+  // US Core race and ethnicity extensions: the OMB category (when there is
+  // one) and the text
+  private createRaceEthnicityExtension(
+    url: string,
+    value: string,
+    codes: Record<string, string>
+  ): NonNullable<FHIRPatient['extension']>[number] {
+    const extension: NonNullable<FHIRPatient['extension']>[number] = {
+      url,
+      extension: []
+    };
+    
+    if (codes[value]) {
+      extension.extension!.push({
+        url: 'ombCategory',
+        valueCoding: {
+          system: RACE_ETHNICITY_SYSTEM,
+          code: codes[value],
+          display: value
+        }
+      });
+    }
+    extension.extension!.push({
+      url: 'text',
+      valueString: value
+    });
+    
+    return extension;
+  }
+  
+  // Medical record number, SSN and driver's license
+  private createPatientIdentifiers(person: Person): NonNullable<FHIRPatient['identifier']> {
+    const identifierType = (code: string, display: string) => ({
+      coding: [{
+        system: IDENTIFIER_TYPE_SYSTEM,
+        code,
+        display
+      }],
+      text: display
+    });
+    
+    const identifiers: NonNullable<FHIRPatient['identifier']> = [{
+      type: identifierType('MR', 'Medical Record Number'),
+      system: MRN_SYSTEM,
+      value: person.id
+    }];
+    
+    const ssn = person.attributes.get('ssn');
+    if (ssn) {
+      identifiers.push({
+        type: identifierType('SS', 'Social Security Number'),
+        system: SSN_SYSTEM,
+        value: ssn
+      });
+    }
+    
+    const drivers = person.attributes.get('drivers');
+    const driversSystem = person.location && driversLicenseSystem(person.location.state);
+    if (drivers && driversSystem) {
+      identifiers.push({
+        type: identifierType('DL', "Driver's license number"),
+        system: driversSystem,
+        value: drivers
+      });
+    }
+    
+    return identifiers;
+  }
+  
+  private createEncounter(encounter: Encounter, patientId: string): FHIREncounter {
+    return {
+      resourceType: 'Encounter',
+      id: encounter.id,
+      status: encounter.endTime ? 'finished' : 'in-progress',
+      class: {
+        system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+        code: encounter.encounterClass,
+        display: encounter.encounterClass
+      },
+      type: [{
+        coding: encounter.codes.coding,
         text: encounter.codes.text
       }],
       subject: {
@@ -357,12 +1128,131 @@ export class FHIRExporter {
       },
       reasonCode: encounter.reason ? [{
         coding: encounter.reason.coding
-      }] : undefined
+      }] : undefined,
+      hospitalization: encounter.discharge ? {
+        dischargeDisposition: {
+          coding: encounter.discharge.coding,
+          text: encounter.discharge.text
+        }
+      } : undefined,
+      // Providers and clinicians are shared resources, referenced by identifier
+      participant: encounter.clinician ? [{
+        individual: {
+          reference: `Practitioner?${identifierQuery(NPI_SYSTEM, encounter.clinician)}`
+        }
+      }] : undefined,
+      location: encounter.provider ? [{
+        location: {
+          reference: `Location?${identifierQuery(PROVIDER_SYSTEM, encounter.provider)}`
+        }
+      }] : undefined,
+      serviceProvider: encounter.provider ? {
+        reference: `Organization?${identifierQuery(PROVIDER_SYSTEM, encounter.provider)}`
+      } : undefined
     };
   }
   
-  private createCondition(condition: Condition, patientId: string): FHIRCondition {
+  private createOrganization(provider: Provider): FHIROrganization {
+    const organization: FHIROrganization = {
+      resourceType: 'Organization',
+      id: sharedResourceId(`Organization?${identifierQuery(PROVIDER_SYSTEM, provider.id)}`),
+      identifier: [{
+        system: PROVIDER_SYSTEM,
+        value: provider.id
+      }],
+      active: true,
+      type: [{
+        coding: [{
+          system: ORGANIZATION_TYPE_SYSTEM,
+          code: 'prov',
+          display: 'Healthcare Provider'
+        }],
+        text: 'Healthcare Provider'
+      }],
+      name: provider.name
+    };
+    
+    if (provider.phone) {
+      organization.telecom = [{
+        system: 'phone',
+        value: provider.phone
+      }];
+    }
+    
+    if (provider.address || provider.city) {
+      organization.address = [this.createProviderAddress(provider)];
+    }
+    
+    return organization;
+  }
+  
+  private createLocation(provider: Provider): FHIRLocation {
+    const organizationId = sharedResourceId(`Organization?${identifierQuery(PROVIDER_SYSTEM, provider.id)}`);
+    const location: FHIRLocation = {
+      resourceType: 'Location',
+      id: sharedResourceId(`Location?${identifierQuery(PROVIDER_SYSTEM, provider.id)}`),
+      identifier: [{
+        system: PROVIDER_SYSTEM,
+        value: provider.id
+      }],
+      status: 'active',
+      name: provider.name,
+      managingOrganization: {
+        reference: `urn:uuid:${organizationId}`
+      }
+    };
+    
+    if (provider.phone) {
+      location.telecom = [{
+        system: 'phone',
+        value: provider.phone
+      }];
+    }
+    
+    if (provider.address || provider.city) {
+      location.address = this.createProviderAddress(provider);
+    }
+    
+    if (provider.coordinates) {
+      location.position = {
+        latitude: provider.coordinates.latitude,
+        longitude: provider.coordinates.longitude
+      };
+    }
+    
+    return location;
+  }
+  
+  private createProviderAddress(provider: Provider): NonNullable<FHIROrganization['address']>[number] {
+    return {
+      line: provider.address ? [provider.address] : [],
+      city: provider.city,
+      state: provider.state,
+      postalCode: provider.zip,
+      country: 'US'
+    };
+  }
+  
+  private createPractitioner(clinician: Clinician): FHIRPractitioner {
     return {
+      resourceType: 'Practitioner',
+      id: sharedResourceId(`Practitioner?${identifierQuery(NPI_SYSTEM, clinician.id)}`),
+      identifier: [{
+        system: NPI_SYSTEM,
+        value: clinician.id
+      }],
+      active: true,
+      name: [{
+        family: clinician.lastName,
+        given: [clinician.firstName],
+        prefix: ['Dr.']
+      }],
+      gender: clinician.gender === 'M' ? 'male' : 'female'
+    };
+  }
+  
+  private createCondition(condition: Condition, patientId: string): FHIRCondition {
+    const fhirCondition: FHIRCondition = {
       resourceType: 'Condition',
       id: condition.id,
       clinicalStatus: {
@@ -387,13 +1277,21 @@ export class FHIRExporter {
       onsetDateTime: new Date(condition.startTime).toISOString(),
       abatementDateTime: condition.endTime ? new Date(condition.endTime).toISOString() : undefined
     };
+    
+    if (condition.encounter) {
+      fhirCondition.encounter = {
+        reference: `Encounter/${condition.encounter}`
+      };
+    }
+    
+    return fhirCondition;
   }
   
   private createMedicationRequest(medication: Medication, patientId: string): FHIRMedicationRequest {
     const request: FHIRMedicationRequest = {
       resourceType: 'MedicationRequest',
       id: medication.id,
-      status: medication.endTime ? 'stopped' : 'active',
+      status: this.medicationStatus(medication),
       intent: 'order',
       medicationCodeableConcept: {
         coding: medication.codes.coding,
@@ -405,6 +1303,34 @@ export class FHIRExporter {
       authoredOn: new Date(medication.startTime).toISOString()
     };
     
+    if (medication.encounter) {
+      request.encounter = {
+        reference: `Encounter/${medication.encounter}`
+      };
+    }
+    
+    if (medication.pharmacy) {
+      request.dispenseRequest = {
+        performer: {
+          reference: `Organization?${identifierQuery(PROVIDER_SYSTEM, medication.pharmacy)}`
+        }
+      };
+    }
+    
+    if (medication.reason) {
+      request.reasonCode = [{
+        coding: medication.reason.coding,
+        text: medication.reason.text
+      }];
+    }
+    
+    if (medication.stopReason) {
+      request.statusReason = {
+        coding: medication.stopReason.coding,
+        text: medication.stopReason.text
+      };
+    }
+    
     if (medication.dosage) {
       request.dosageInstruction = [{
         timing: {
@@ -426,6 +1352,14 @@ export class FHIRExporter {
     return request;
   }
   
+  // Stopped early (MedicationEnd) vs. a finished course vs. still being taken
+  private medicationStatus(medication: Medication): string {
+    if (medication.stopReason) {
+      return 'stopped';
+    }
+    return medication.endTime ? 'completed' : 'active';
+  }
+  
   private createObservation(observation: Observation, patientId: string): FHIRObservation {
     const obs: FHIRObservation = {
       resourceType: 'Observation',
@@ -441,23 +1375,60 @@ export class FHIRExporter {
       effectiveDateTime: new Date(observation.startTime).toISOString()
     };
     
-    // Add value based on type
-    if (typeof observation.value === 'number' && observation.unit) {
+    if (observation.category) {
+      obs.category = [{
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+          code: observation.category
+        }]
+      }];
+    }
+    
+    if (observation.encounter) {
+      obs.encounter = {
+        reference: `Encounter/${observation.encounter}`
+      };
+    }
+    
+    // Add value based on type. Quantities without a unit have just a value.
+    if (typeof observation.value === 'number') {
       obs.valueQuantity = {
-        value: observation.value,
-        unit: observation.unit
+        value: observation.value
       };
+      if (observation.unit) {
+        obs.valueQuantity.unit = observation.unit;
+      }
     } else if (typeof observation.value === 'string') {
       obs.valueString = observation.value;
     } else if (typeof observation.value === 'boolean') {
       obs.valueBoolean = observation.value;
+    } else if (observation.value?.coding) {
+      obs.valueCodeableConcept = {
+        coding: observation.value.coding,
+        text: observation.value.text
+      };
+    }
+    
+    // Panel members are exported as components
+    if (observation.observations?.length) {
+      obs.component = observation.observations.map(child => ({
+        code: {
+          coding: child.codes.coding,
+          text: child.codes.text
+        },
+        valueQuantity: typeof child.value === 'number' ? {
+          value: child.value,
+          unit: child.unit
+        } : undefined,
+        valueString: typeof child.value === 'string' ? child.value : undefined
+      }));
     }
     
     return obs;
   }
   
   private createProcedure(procedure: Procedure, patientId: string): FHIRProcedure {
-    return {
+    const fhirProcedure: FHIRProcedure = {
       resourceType: 'Procedure',
       id: procedure.id,
       status: 'completed',
@@ -473,6 +1444,416 @@ export class FHIRExporter {
         end: procedure.endTime ? new Date(procedure.endTime).toISOString() : new Date(procedure.startTime).toISOString()
       }
     };
+    
+    if (procedure.encounter) {
+      fhirProcedure.encounter = {
+        reference: `Encounter/${procedure.encounter}`
+      };
+    }
+    
+    if (procedure.reason) {
+      fhirProcedure.reasonCode = [{
+        coding: procedure.reason.coding,
+        text: procedure.reason.text
+      }];
+    }
+    
+    return fhirProcedure;
+  }
+  
+  private createImmunization(immunization: Immunization, patientId: string): FHIRImmunization {
+    const fhirImmunization: FHIRImmunization = {
+      resourceType: 'Immunization',
+      id: immunization.id,
+      status: 'completed',
+      vaccineCode: {
+        coding: immunization.codes.coding,
+        text: immunization.codes.text
+      },
+      patient: {
+        reference: `Patient/${patientId}`
+      },
+      occurrenceDateTime: new Date(immunization.startTime).toISOString(),
+      primarySource: true
+    };
+    
+    if (immunization.encounter) {
+      fhirImmunization.encounter = {
+        reference: `Encounter/${immunization.encounter}`
+      };
+    }
+    
+    if (immunization.doseQuantity) {
+      fhirImmunization.doseQuantity = {
+        value: immunization.doseQuantity.value,
+        unit: immunization.doseQuantity.unit,
+        system: 'http://unitsofmeasure.org',
+        code: immunization.doseQuantity.unit
+      };
+    }
+    
+    if (immunization.doseNumber) {
+      fhirImmunization.protocolApplied = [{
+        series: immunization.series,
+        doseNumberPositiveInt: immunization.doseNumber
+      }];
+    }
+    
+    return fhirImmunization;
+  }
+  
+  private createDiagnosticReport(report: DiagnosticReport, person: Person): FHIRDiagnosticReport {
+    const fhirReport: FHIRDiagnosticReport = {
+      resourceType: 'DiagnosticReport',
+      id: report.id,
+      status: 'final',
+      category: [{
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/v2-0074',
+          code: 'LAB',
+          display: 'Laboratory'
+        }]
+      }],
+      code: {
+        coding: report.codes.coding,
+        text: report.codes.text
+      },
+      subject: {
+        reference: `Patient/${person.id}`
+      },
+      effectiveDateTime: new Date(report.startTime).toISOString(),
+      issued: new Date(report.startTime).toISOString(),
+      result: report.observations.map(id => ({
+        reference: `Observation/${id}`
+      }))
+    };
+    
+    if (report.encounter) {
+      fhirReport.encounter = {
+        reference: `Encounter/${report.encounter}`
+      };
+    }
+    
+    // The report is performed by the provider of its encounter
+    const provider = person.record.encounters.find(encounter => encounter.id === report.encounter)?.provider;
+    if (provider) {
+      fhirReport.performer = [{
+        reference: `Organization?${identifierQuery(PROVIDER_SYSTEM, provider)}`
+      }];
+    }
+    
+    return fhirReport;
+  }
+  
+  private createCarePlan(carePlan: CarePlan, person: Person, careTeamId: string, goals: FHIRGoal[]): FHIRCarePlan {
+    const status = carePlan.endTime ? 'completed' : 'active';
+    const fhirCarePlan: FHIRCarePlan = {
+      resourceType: 'CarePlan',
+      id: carePlan.id,
+      status,
+      intent: 'order',
+      category: [{
+        coding: carePlan.codes.coding,
+        text: carePlan.codes.text
+      }],
+      subject: {
+        reference: `Patient/${person.id}`
+      },
+      period: {
+        start: new Date(carePlan.startTime).toISOString(),
+        end: carePlan.endTime ? new Date(carePlan.endTime).toISOString() : undefined
+      },
+      careTeam: [{
+        reference: `CareTeam/${careTeamId}`
+      }]
+    };
+    
+    if (carePlan.encounter) {
+      fhirCarePlan.encounter = {
+        reference: `Encounter/${carePlan.encounter}`
+      };
+    }
+    
+    // Reference the condition the care plan was started for
+    const condition = carePlan.reason && this.findCondition(person, carePlan.reason, carePlan.startTime);
+    if (condition) {
+      fhirCarePlan.addresses = [{
+        reference: `Condition/${condition.id}`
+      }];
+    }
+    
+    if (goals.length) {
+      fhirCarePlan.goal = goals.map(goal => ({
+        reference: `Goal/${goal.id}`
+      }));
+    }
+    
+    if (carePlan.activities?.length) {
+      fhirCarePlan.activity = carePlan.activities.map(activity => ({
+        detail: {
+          code: {
+            coding: activity.coding,
+            text: activity.text
+          },
+          status: carePlan.endTime ? 'completed' : 'in-progress'
+        }
+      }));
+    }
+    
+    return fhirCarePlan;
+  }
+  
+  // Goals last as long as their care plan
+  private createGoal(goal: CarePlanGoal, carePlan: CarePlan, person: Person): FHIRGoal {
+    const fhirGoal: FHIRGoal = {
+      resourceType: 'Goal',
+      id: generateUUID(),
+      lifecycleStatus: carePlan.endTime ? 'completed' : 'active',
+      description: {
+        text: goal.text || 'Goal'
+      },
+      subject: {
+        reference: `Patient/${person.id}`
+      }
+    };
+    
+    const conditions = (goal.addresses || [])
+      .map(codes => this.findCondition(person, codes, carePlan.startTime))
+      .filter((condition): condition is Condition => !!condition);
+    if (conditions.length) {
+      fhirGoal.addresses = conditions.map(condition => ({
+        reference: `Condition/${condition.id}`
+      }));
+    }
+    
+    return fhirGoal;
+  }
+  
+  // The condition with one of the codes that had started by the time
+  private findCondition(person: Person, codes: CodeableConcept, time: number): Condition | undefined {
+    const reasonCodes = codes.coding.map(coding => coding.code);
+    return person.record.conditions.find(c =>
+      c.startTime <= time &&
+      c.codes.coding.some(coding => reasonCodes.includes(coding.code))
+    );
+  }
+  
+  private createCareTeam(carePlan: CarePlan, patientId: string): FHIRCareTeam {
+    const careTeam: FHIRCareTeam = {
+      resourceType: 'CareTeam',
+      id: generateUUID(),
+      status: carePlan.endTime ? 'inactive' : 'active',
+      subject: {
+        reference: `Patient/${patientId}`
+      },
+      period: {
+        start: new Date(carePlan.startTime).toISOString(),
+        end: carePlan.endTime ? new Date(carePlan.endTime).toISOString() : undefined
+      },
+      participant: [{
+        role: [{
+          coding: [{
+            system: 'http://snomed.info/sct',
+            code: '116154003',
+            display: 'Patient'
+          }]
+        }],
+        member: {
+          reference: `Patient/${patientId}`
+        }
+      }]
+    };
+    
+    if (carePlan.encounter) {
+      careTeam.encounter = {
+        reference: `Encounter/${carePlan.encounter}`
+      };
+    }
+    
+    if (carePlan.reason) {
+      careTeam.reasonCode = [{
+        coding: carePlan.reason.coding,
+        text: carePlan.reason.text
+      }];
+    }
+    
+    return careTeam;
+  }
+  
+  private createAllergyIntolerance(allergy: Allergy, patientId: string): FHIRAllergyIntolerance {
+    const fhirAllergy: FHIRAllergyIntolerance = {
+      resourceType: 'AllergyIntolerance',
+      id: allergy.id,
+      clinicalStatus: {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+          code: allergy.endTime ? 'resolved' : 'active'
+        }]
+      },
+      verificationStatus: {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification',
+          code: 'confirmed'
+        }]
+      },
+      type: allergy.allergyType,
+      category: allergy.category ? [allergy.category] : undefined,
+      criticality: allergy.criticality,
+      code: {
+        coding: allergy.codes.coding,
+        text: allergy.codes.text
+      },
+      patient: {
+        reference: `Patient/${patientId}`
+      },
+      recordedDate: new Date(allergy.startTime).toISOString()
+    };
+    
+    if (allergy.encounter) {
+      fhirAllergy.encounter = {
+        reference: `Encounter/${allergy.encounter}`
+      };
+    }
+    
+    if (allergy.endTime) {
+      fhirAllergy.lastOccurrence = new Date(allergy.endTime).toISOString();
+    }
+    
+    if (allergy.reactions?.length) {
+      fhirAllergy.reaction = allergy.reactions.map(reaction => ({
+        manifestation: [{
+          coding: reaction.manifestation.coding,
+          text: reaction.manifestation.text
+        }],
+        severity: reaction.severity
+      }));
+    }
+    
+    return fhirAllergy;
+  }
+  
+  private createDevice(device: Device, patientId: string): FHIRDevice {
+    const fhirDevice: FHIRDevice = {
+      resourceType: 'Device',
+      id: device.id,
+      status: device.endTime ? 'inactive' : 'active',
+      manufacturer: device.manufacturer,
+      modelNumber: device.model,
+      lotNumber: device.lotNumber,
+      serialNumber: device.serialNumber,
+      type: {
+        coding: device.codes.coding,
+        text: device.codes.text
+      },
+      patient: {
+        reference: `Patient/${patientId}`
+      }
+    };
+    
+    if (device.udi && device.deviceIdentifier) {
+      fhirDevice.udiCarrier = [{
+        deviceIdentifier: device.deviceIdentifier,
+        carrierHRF: device.udi
+      }];
+      fhirDevice.distinctIdentifier = device.deviceIdentifier;
+    }
+    
+    if (device.manufactureTime) {
+      fhirDevice.manufactureDate = new Date(device.manufactureTime).toISOString();
+    }
+    
+    if (device.expirationTime) {
+      fhirDevice.expirationDate = new Date(device.expirationTime).toISOString();
+    }
+    
+    if (device.codes.text) {
+      fhirDevice.deviceName = [{
+        name: device.codes.text,
+        type: 'user-friendly-name'
+      }];
+    }
+    
+    return fhirDevice;
+  }
+  
+  private createSupplyDelivery(supply: Supply, patientId: string): FHIRSupplyDelivery {
+    return {
+      resourceType: 'SupplyDelivery',
+      id: supply.id,
+      status: 'completed',
+      patient: {
+        reference: `Patient/${patientId}`
+      },
+      type: {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/supply-item-type',
+          code: 'device',
+          display: 'Device'
+        }]
+      },
+      suppliedItem: {
+        quantity: {
+          value: supply.quantity
+        },
+        itemCodeableConcept: {
+          coding: supply.codes.coding,
+          text: supply.codes.text
+        }
+      },
+      occurrenceDateTime: new Date(supply.startTime).toISOString()
+    };
+  }
+  
+  private createImagingStudy(study: ImagingStudy, patientId: string): FHIRImagingStudy {
+    const started = new Date(study.startTime).toISOString();
+    const series = study.series || [];
+    
+    const fhirStudy: FHIRImagingStudy = {
+      resourceType: 'ImagingStudy',
+      id: study.id,
+      status: 'available',
+      subject: {
+        reference: `Patient/${patientId}`
+      },
+      started,
+      procedureCode: [{
+        coding: study.codes.coding,
+        text: study.codes.text
+      }],
+      numberOfSeries: series.length,
+      numberOfInstances: series.reduce((total, s) => total + (s.instances?.length || 0), 0),
+      series: series.map(s => ({
+        uid: s.uid || '',
+        number: s.number,
+        modality: s.modality.coding[0]!,
+        bodySite: s.bodySite?.coding[0],
+        numberOfInstances: s.instances?.length || 0,
+        started,
+        instance: (s.instances || []).map(instance => ({
+          uid: instance.uid || '',
+          sopClass: instance.sopClass.coding[0]!,
+          number: instance.number,
+          title: instance.title
+        }))
+      }))
+    };
+    
+    // Study instance UID as an OID
+    if (study.uid) {
+      fhirStudy.identifier = [{
+        use: 'official',
+        system: 'urn:ietf:rfc:3986',
+        value: `urn:oid:${study.uid}`
+      }];
+    }
+    
+    if (study.encounter) {
+      fhirStudy.encounter = {
+        reference: `Encounter/${study.encounter}`
+      };
+    }
+    
+    return fhirStudy;
   }
   
   // Export to file
@@ -481,4 +1862,13 @@ export class FHIRExporter {
     const json = JSON.stringify(bundle, null, 2);
     await Bun.write(filepath, json);
   }
+  
+  // Export providers and clinicians to the hospital and practitioner bundle files
+  async exportProvidersToFile(providers: Provider[], filepath: string): Promise<void> {
+    await Bun.write(filepath, JSON.stringify(this.exportProviders(providers), null, 2));
+  }
+  
+  async exportCliniciansToFile(clinicians: Clinician[], filepath: string): Promise<void> {
+    await Bun.write(filepath, JSON.stringify(this.exportClinicians(clinicians), null, 2));
+  }
 }
\ No newline at end of file
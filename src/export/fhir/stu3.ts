@@ -0,0 +1,341 @@
+import {
+  FHIRExporter,
+  FHIRR4Resource,
+  FHIRPatient,
+  FHIREncounter,
+  FHIRCondition,
+  FHIRMedicationRequest,
+  FHIRObservation,
+  FHIRProcedure,
+  FHIRImmunization,
+  FHIRDiagnosticReport,
+  FHIRCarePlan,
+  FHIRCareTeam,
+  FHIRGoal,
+  FHIRAllergyIntolerance,
+  FHIRDevice,
+  FHIRSupplyDelivery,
+  FHIRImagingStudy,
+  FHIROrganization,
+  FHIRLocation,
+  FHIRPractitioner
+} from './index.ts';
+import { ORGANIZATION_TYPE_SYSTEM } from './us-core.ts';
+
+// FHIR STU3 types, described by how they differ from the R4 resources.
+// Most STU3 resources link their encounter as `context`.
+export interface STU3Encounter extends Omit<FHIREncounter, 'reasonCode'> {
+  reason?: FHIREncounter['reasonCode'];
+}
+
+export interface STU3Condition extends Omit<FHIRCondition, 'clinicalStatus' | 'verificationStatus' | 'encounter'> {
+  clinicalStatus: string;
+  verificationStatus: string;
+  context?: {
+    reference: string;
+  };
+}
+
+export interface STU3MedicationRequest extends Omit<FHIRMedicationRequest, 'encounter' | 'statusReason' | 'dosageInstruction'> {
+  context?: {
+    reference: string;
+  };
+  dosageInstruction?: Array<{
+    text?: string;
+    timing?: {
+      repeat?: {
+        frequency?: number;
+        period?: number;
+        periodUnit?: string;
+      };
+    };
+    doseQuantity?: {
+      value: number;
+      unit: string;
+    };
+  }>;
+}
+
+export interface STU3Observation extends Omit<FHIRObservation, 'encounter'> {
+  context?: {
+    reference: string;
+  };
+}
+
+export interface STU3Procedure extends Omit<FHIRProcedure, 'encounter'> {
+  context?: {
+    reference: string;
+  };
+}
+
+export interface STU3Immunization extends Omit<FHIRImmunization, 'occurrenceDateTime' | 'protocolApplied'> {
+  notGiven: boolean;
+  date: string;
+}
+
+export interface STU3DiagnosticReport extends Omit<FHIRDiagnosticReport, 'encounter' | 'category' | 'performer'> {
+  context?: {
+    reference: string;
+  };
+  category?: NonNullable<FHIRDiagnosticReport['category']>[number];
+  performer?: Array<{
+    actor: NonNullable<FHIRDiagnosticReport['performer']>[number];
+  }>;
+}
+
+export interface STU3CarePlan extends Omit<FHIRCarePlan, 'encounter'> {
+  context?: {
+    reference: string;
+  };
+}
+
+export interface STU3CareTeam extends Omit<FHIRCareTeam, 'encounter' | 'participant'> {
+  context?: {
+    reference: string;
+  };
+  participant: Array<{
+    role: FHIRCareTeam['participant'][number]['role'][number];
+    member: {
+      reference: string;
+    };
+  }>;
+}
+
+export interface STU3Goal extends Omit<FHIRGoal, 'lifecycleStatus'> {
+  status: string;
+}
+
+export interface STU3AllergyIntolerance extends Omit<FHIRAllergyIntolerance, 'clinicalStatus' | 'verificationStatus' | 'encounter' | 'recordedDate'> {
+  clinicalStatus: string;
+  verificationStatus: string;
+  assertedDate: string;
+}
+
+export interface STU3Device extends Omit<FHIRDevice, 'udiCarrier' | 'distinctIdentifier' | 'serialNumber' | 'deviceName' | 'modelNumber'> {
+  udi?: {
+    deviceIdentifier: string;
+    carrierHRF: string;
+  };
+  model?: string;
+}
+
+export interface STU3ImagingStudy extends Omit<FHIRImagingStudy, 'status' | 'subject' | 'encounter' | 'series'> {
+  uid: string;
+  availability: 'ONLINE';
+  patient: {
+    reference: string;
+  };
+  context?: {
+    reference: string;
+  };
+  series: Array<{
+    uid: string;
+    number?: number;
+    availability: 'ONLINE';
+    modality: FHIRImagingStudy['series'][number]['modality'];
+    bodySite?: FHIRImagingStudy['series'][number]['bodySite'];
+    numberOfInstances: number;
+    started: string;
+    instance: Array<{
+      uid: string;
+      number?: number;
+      sopClass: string;
+      title?: string;
+    }>;
+  }>;
+}
+
+export type STU3Resource =
+  | FHIRPatient
+  | STU3Encounter
+  | STU3Condition
+  | STU3MedicationRequest
+  | STU3Observation
+  | STU3Procedure
+  | STU3Immunization
+  | STU3DiagnosticReport
+  | STU3CarePlan
+  | STU3CareTeam
+  | STU3Goal
+  | STU3AllergyIntolerance
+  | STU3Device
+  | FHIRSupplyDelivery
+  | STU3ImagingStudy
+  | FHIROrganization
+  | FHIRLocation
+  | FHIRPractitioner;
+
+// Rename the R4 `encounter` reference to STU3's `context`
+function withContext<T extends { encounter?: { reference: string } }>(
+  resource: T
+): Omit<T, 'encounter'> & { context?: { reference: string } } {
+  const { encounter, ...rest } = resource;
+  return encounter ? { ...rest, context: encounter } : rest;
+}
+
+// Status codes are plain codes in STU3
+function statusCode(status: { coding: Array<{ code: string }> }): string {
+  return status.coding[0]?.code || '';
+}
+
+// SOP classes and study UIDs are OIDs in STU3 and DSTU2
+export function toOid(uid: string): string {
+  return uid.startsWith('urn:oid:') ? uid : `urn:oid:${uid}`;
+}
+
+// Study UID of an ImagingStudy: its identifier, or an OID under the 2.25
+// (UUID) arc derived from its id
+export function studyOid(study: FHIRImagingStudy): string {
+  const identifier = study.identifier?.[0]?.value;
+  if (identifier) {
+    return toOid(identifier);
+  }
+  return `urn:oid:2.25.${BigInt('0x' + study.id.replace(/-/g, '')).toString()}`;
+}
+
+// Organization types use the pre-R4 code system in STU3 and DSTU2
+export function convertOrganization(organization: FHIROrganization): FHIROrganization {
+  return {
+    ...organization,
+    type: organization.type.map(type => ({
+      ...type,
+      coding: type.coding.map(coding => ({
+        ...coding,
+        system: coding.system === ORGANIZATION_TYPE_SYSTEM ? 'http://hl7.org/fhir/organization-type' : coding.system
+      }))
+    }))
+  };
+}
+
+// Goals have an achievement status instead of a lifecycle status before R4
+export function goalStatus(goal: FHIRGoal): string {
+  return goal.lifecycleStatus === 'completed' ? 'achieved' : 'in-progress';
+}
+
+// FHIR STU3 Exporter. Builds the same resources as the R4 exporter and
+// reshapes them to STU3. Immunization dose numbers are not exported, as
+// STU3 vaccination protocols also require the target disease.
+export class FHIRSTU3Exporter extends FHIRExporter {
+  protected override convertResource(resource: FHIRR4Resource): STU3Resource | undefined {
+    switch (resource.resourceType) {
+      case 'Encounter': {
+        const { reasonCode, ...encounter } = resource;
+        return reasonCode ? { ...encounter, reason: reasonCode } : encounter;
+      }
+      case 'Condition':
+        return {
+          ...withContext(resource),
+          clinicalStatus: statusCode(resource.clinicalStatus),
+          verificationStatus: statusCode(resource.verificationStatus)
+        };
+      case 'MedicationRequest':
+        return this.convertMedicationRequest(resource);
+      case 'Observation':
+        return withContext(resource);
+      case 'Procedure':
+        return withContext(resource);
+      case 'DiagnosticReport': {
+        // A single category, and performers are actors with a role
+        const { category, performer, ...rest } = withContext(resource);
+        const report: STU3DiagnosticReport = rest;
+        if (category?.[0]) {
+          report.category = category[0];
+        }
+        if (performer) {
+          report.performer = performer.map(actor => ({ actor }));
+        }
+        return report;
+      }
+      case 'CarePlan':
+        return withContext(resource);
+      case 'CareTeam':
+        return {
+          ...withContext(resource),
+          participant: resource.participant.map(participant => ({
+            role: participant.role[0]!,
+            member: participant.member
+          }))
+        };
+      case 'Goal': {
+        const { lifecycleStatus, ...goal } = resource;
+        return { ...goal, status: goalStatus(resource) };
+      }
+      case 'Immunization': {
+        const { occurrenceDateTime, protocolApplied, ...immunization } = resource;
+        return { ...immunization, notGiven: false, date: occurrenceDateTime };
+      }
+      case 'AllergyIntolerance': {
+        const { encounter, recordedDate, ...allergy } = resource;
+        return {
+          ...allergy,
+          clinicalStatus: statusCode(resource.clinicalStatus),
+          verificationStatus: statusCode(resource.verificationStatus),
+          assertedDate: recordedDate
+        };
+      }
+      case 'Device':
+        return this.convertDevice(resource);
+      case 'ImagingStudy':
+        return this.convertImagingStudy(resource);
+      case 'Organization':
+        return convertOrganization(resource);
+      default:
+        return resource;
+    }
+  }
+  
+  private convertMedicationRequest(resource: FHIRMedicationRequest): STU3MedicationRequest {
+    const { statusReason, dosageInstruction, ...request } = withContext(resource);
+    const converted: STU3MedicationRequest = request;
+    
+    if (dosageInstruction) {
+      converted.dosageInstruction = dosageInstruction.map(dosage => ({
+        text: dosage.text,
+        timing: dosage.timing,
+        doseQuantity: dosage.doseAndRate?.[0]?.doseQuantity
+      }));
+    }
+    
+    return converted;
+  }
+  
+  private convertDevice(resource: FHIRDevice): STU3Device {
+    const { udiCarrier, distinctIdentifier, serialNumber, deviceName, modelNumber, ...device } = resource;
+    const converted: STU3Device = device;
+    
+    if (udiCarrier?.[0]) {
+      converted.udi = udiCarrier[0];
+    }
+    if (modelNumber) {
+      converted.model = modelNumber;
+    }
+    
+    return converted;
+  }
+  
+  private convertImagingStudy(resource: FHIRImagingStudy): STU3ImagingStudy {
+    const { status, subject, encounter, series, ...study } = resource;
+    const converted: STU3ImagingStudy = {
+      ...study,
+      uid: studyOid(resource),
+      availability: 'ONLINE',
+      patient: subject,
+      series: series.map(s => ({
+        ...s,
+        uid: toOid(s.uid),
+        availability: 'ONLINE',
+        instance: s.instance.map(instance => ({
+          ...instance,
+          uid: toOid(instance.uid),
+          sopClass: toOid(instance.sopClass.code)
+        }))
+      }))
+    };
+    
+    if (encounter) {
+      converted.context = encounter;
+    }
+    
+    return converted;
+  }
+}
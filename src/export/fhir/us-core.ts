@@ -0,0 +1,62 @@
+// Code systems and mappings used for US Core resources
+
+export const US_CORE_RACE_URL = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-race';
+export const US_CORE_ETHNICITY_URL = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-ethnicity';
+export const US_CORE_BIRTHSEX_URL = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-birthsex';
+export const GEOLOCATION_URL = 'http://hl7.org/fhir/StructureDefinition/geolocation';
+
+export const RACE_ETHNICITY_SYSTEM = 'urn:oid:2.16.840.1.113883.6.238';
+export const IDENTIFIER_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0203';
+export const MARITAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus';
+export const LANGUAGE_SYSTEM = 'urn:ietf:bcp:47';
+
+// Identifier systems of the shared provider resources, which patient
+// bundles reference by identifier
+export const PROVIDER_SYSTEM = 'https://github.com/synthetichealth/synthea';
+export const NPI_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+export const ORGANIZATION_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/organization-type';
+
+export const MRN_SYSTEM = 'http://hospital.smarthealthit.org';
+export const SSN_SYSTEM = 'http://hl7.org/fhir/sid/us-ssn';
+
+// OMB race categories. Races outside them (e.g. 'Other') only have text.
+export const OMB_RACE_CODES: Record<string, string> = {
+  'White': '2106-3',
+  'Black or African American': '2054-5',
+  'Asian': '2028-9',
+  'American Indian or Alaska Native': '1002-5',
+  'Native Hawaiian or Other Pacific Islander': '2076-8'
+};
+
+export const OMB_ETHNICITY_CODES: Record<string, string> = {
+  'Hispanic or Latino': '2135-2',
+  'Not Hispanic or Latino': '2186-5'
+};
+
+export const MARITAL_STATUSES: Record<string, string> = {
+  M: 'Married',
+  S: 'Never Married',
+  D: 'Divorced',
+  W: 'Widowed'
+};
+
+export const LANGUAGES: Record<string, { code: string; display: string }> = {
+  English: { code: 'en-US', display: 'English (United States)' },
+  Spanish: { code: 'es', display: 'Spanish' }
+};
+
+// State FIPS codes; driver's licenses use the state's OID
+// 2.16.840.1.113883.4.3.<FIPS>
+export const STATE_FIPS: Record<string, string> = {
+  AL: '01', AK: '02', AZ: '04', AR: '05', CA: '06', CO: '08', CT: '09', DE: '10', DC: '11',
+  FL: '12', GA: '13', HI: '15', ID: '16', IL: '17', IN: '18', IA: '19', KS: '20', KY: '21',
+  LA: '22', ME: '23', MD: '24', MA: '25', MI: '26', MN: '27', MS: '28', MO: '29', MT: '30',
+  NE: '31', NV: '32', NH: '33', NJ: '34', NM: '35', NY: '36', NC: '37', ND: '38', OH: '39',
+  OK: '40', OR: '41', PA: '42', RI: '44', SC: '45', SD: '46', TN: '47', TX: '48', UT: '49',
+  VT: '50', VA: '51', WA: '53', WV: '54', WI: '55', WY: '56'
+};
+
+export function driversLicenseSystem(state: string): string | undefined {
+  const fips = STATE_FIPS[state];
+  return fips ? `urn:oid:2.16.840.1.113883.4.3.${Number(fips)}` : undefined;
+}
@@ -0,0 +1,18 @@
+import { FHIRVersion } from '../../types/index.ts';
+import { FHIRExporter } from './index.ts';
+import { FHIRSTU3Exporter } from './stu3.ts';
+import { FHIRDSTU2Exporter } from './dstu2.ts';
+
+export const FHIR_VERSIONS: FHIRVersion[] = ['R4', 'STU3', 'DSTU2'];
+
+// Create the exporter for a FHIR version
+export function createFHIRExporter(version: FHIRVersion = 'R4'): FHIRExporter {
+  switch (version) {
+    case 'STU3':
+      return new FHIRSTU3Exporter();
+    case 'DSTU2':
+      return new FHIRDSTU2Exporter();
+    default:
+      return new FHIRExporter();
+  }
+}
@@ -0,0 +1,206 @@
+import { Person, HealthRecord } from '../../types/index.ts';
+
+// Version of the format written by JSONExporter. The major version changes
+// when existing fields change meaning or are removed; readers reject records
+// with a different major version.
+export const JSON_SCHEMA_VERSION = '1.0.0';
+
+// Attributes under this prefix hold per-module simulation state (see
+// moduleContextKey), which is not part of the exported record
+const MODULE_CONTEXT_PREFIX = 'module_context_';
+
+// A person as written by JSONExporter, described by person.schema.json
+export interface PersonJSON {
+  schemaVersion: string;
+  id: string;
+  seed: number;
+  birthDate: string;
+  deathDate?: string;
+  gender: 'M' | 'F';
+  race: string;
+  ethnicity: string;
+  location?: Person['location'];
+  attributes: Record<string, JSONValue>;
+  record: HealthRecord;
+}
+
+export type JSONValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JSONValue[]
+  | { [key: string]: JSONValue };
+
+// JSON Exporter. Values JSON has no type for are tagged in attributes:
+// {"$date": ISO string}, {"$map": [[key, value], ...]} and {"$entry": id}
+// for an attribute that refers to an entry of the health record.
+export class JSONExporter {
+  constructor(private options: { prettyPrint?: boolean } = {}) {}
+  
+  // Convert a person to the versioned JSON format
+  toJSON(person: Person): PersonJSON {
+    const entryIds = new Set(collectEntries(person.record).keys());
+    
+    // Attributes are sorted so that records of the same person diff cleanly
+    const attributes: Record<string, JSONValue> = {};
+    const keys = Array.from(person.attributes.keys())
+      .filter(key => !key.startsWith(MODULE_CONTEXT_PREFIX))
+      .sort();
+    
+    for (const key of keys) {
+      const value = person.attributes.get(key);
+      if (value !== undefined) {
+        attributes[key] = encodeValue(value, entryIds);
+      }
+    }
+    
+    const json: PersonJSON = {
+      schemaVersion: JSON_SCHEMA_VERSION,
+      id: person.id,
+      seed: person.seed,
+      birthDate: person.birthDate.toISOString(),
+      deathDate: person.deathDate?.toISOString(),
+      gender: person.gender,
+      race: person.race,
+      ethnicity: person.ethnicity,
+      location: person.location,
+      attributes,
+      record: person.record
+    };
+    
+    // Copy so the result shares nothing with the person
+    return JSON.parse(JSON.stringify(json));
+  }
+  
+  // Restore a person from the versioned JSON format
+  fromJSON(json: PersonJSON): Person {
+    const major = String(json.schemaVersion).split('.')[0];
+    if (major !== JSON_SCHEMA_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported JSON schema version: ${json.schemaVersion} (expected ${JSON_SCHEMA_VERSION})`);
+    }
+    
+    const record: HealthRecord = JSON.parse(JSON.stringify(json.record));
+    const entries = collectEntries(record);
+    
+    const attributes = new Map<string, any>();
+    for (const [key, value] of Object.entries(json.attributes)) {
+      attributes.set(key, decodeValue(value, entries));
+    }
+    
+    const person: Person = {
+      id: json.id,
+      seed: json.seed,
+      attributes,
+      record,
+      birthDate: new Date(json.birthDate),
+      gender: json.gender,
+      race: json.race,
+      ethnicity: json.ethnicity
+    };
+    
+    if (json.deathDate) {
+      person.deathDate = new Date(json.deathDate);
+    }
+    if (json.location) {
+      person.location = JSON.parse(JSON.stringify(json.location));
+    }
+    
+    return person;
+  }
+  
+  stringify(person: Person): string {
+    return JSON.stringify(this.toJSON(person), null, this.options.prettyPrint === false ? undefined : 2);
+  }
+  
+  parse(text: string): Person {
+    return this.fromJSON(JSON.parse(text));
+  }
+  
+  // Export to file
+  async exportToFile(person: Person, filepath: string): Promise<void> {
+    await Bun.write(filepath, this.stringify(person));
+  }
+  
+  // Read a person written by exportToFile
+  async importFromFile(filepath: string): Promise<Person> {
+    return this.parse(await Bun.file(filepath).text());
+  }
+}
+
+// Index the entries of a health record (including panel components) by id
+function collectEntries(record: HealthRecord): Map<string, object> {
+  const entries = new Map<string, object>();
+  
+  for (const list of Object.values(record) as { id: string; observations?: unknown[] }[][]) {
+    for (const entry of list) {
+      entries.set(entry.id, entry);
+      
+      for (const component of entry.observations || []) {
+        if (component && typeof component === 'object' && 'id' in component) {
+          entries.set((component as { id: string }).id, component);
+        }
+      }
+    }
+  }
+  
+  return entries;
+}
+
+function encodeValue(value: any, entryIds: Set<string>): JSONValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { $map: Array.from(value.entries()).map(([k, v]) => [encodeValue(k, entryIds), encodeValue(v, entryIds)]) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => encodeValue(item, entryIds));
+  }
+  if (typeof value === 'object') {
+    if (typeof value.id === 'string' && typeof value.type === 'string' && entryIds.has(value.id)) {
+      return { $entry: value.id };
+    }
+    
+    const object: Record<string, JSONValue> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        object[key] = encodeValue(item, entryIds);
+      }
+    }
+    return object;
+  }
+  
+  return value;
+}
+
+function decodeValue(value: JSONValue, entries: Map<string, object>): any {
+  if (Array.isArray(value)) {
+    return value.map(item => decodeValue(item, entries));
+  }
+  if (value && typeof value === 'object') {
+    if (typeof value.$date === 'string') {
+      return new Date(value.$date);
+    }
+    if (Array.isArray(value.$map)) {
+      return new Map(value.$map.map(pair => {
+        const [k, v] = pair as JSONValue[];
+        return [decodeValue(k!, entries), decodeValue(v!, entries)];
+      }));
+    }
+    if (typeof value.$entry === 'string') {
+      return entries.get(value.$entry);
+    }
+    
+    const object: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      object[key] = decodeValue(item, entries);
+    }
+    return object;
+  }
+  
+  return value;
+}
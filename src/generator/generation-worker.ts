@@ -3,6 +3,10 @@ import { Person } from '../types/index.ts';
 import { PersonFactory } from '../models/person-factory.ts';
 import { ModuleLoader } from '../engine/module-loader.ts';
 import { registerAllStates } from '../engine/states/index.ts';
+import { ProviderNetwork, setProviderNetwork } from '../providers/index.ts';
+import { Demographics } from '../demographics/index.ts';
+import { isModuleContextKey } from '../engine/module-engine.ts';
+import { orderModules, simulateLife } from './lifecycle.ts';
 import type { WorkerMessage, WorkerResult } from './worker-pool.ts';
 
 // Register state types
@@ -11,6 +15,7 @@ registerAllStates();
 // Module loader instance
 const moduleLoader = new ModuleLoader();
 let modulesLoaded = false;
+let demographics: Demographics | undefined;
 
 // Handle messages from main thread
 parentPort?.on('message', async (message: WorkerMessage) => {
@@ -37,30 +42,38 @@ async function handleGenerate(seeds: number[], options: any): Promise<WorkerResu
     const modulesDir = options.modules?.[0] || './modules';
     await moduleLoader.loadAllModules(modulesDir);
     modulesLoaded = true;
+    
+    if (options.providersDirectory) {
+      setProviderNetwork(await ProviderNetwork.load(options.providersDirectory));
+    }
+    if (options.demographicsDirectory) {
+      demographics = (await Demographics.load(options.demographicsDirectory)).select(options.state, options.city);
+    }
   }
   
   const persons: any[] = []; // Serialize to plain objects
   const modules = moduleLoader.getAllModules();
   
   for (const seed of seeds) {
-    const person = PersonFactory.createPerson({ seed });
+    const person = PersonFactory.createPerson({
+      seed,
+      gender: options.gender,
+      minAge: options.minAge,
+      maxAge: options.maxAge,
+      referenceTime: options.referenceTime,
+      demographics
+    });
     
-    // Process all modules for this person
-    for (const [name, moduleResult] of modules) {
-      if (moduleResult.errors.length > 0) {
-        continue;
-      }
-      
-      // Simulate person's entire life
-      let time = person.birthDate.getTime();
-      const endTime = options.referenceTime || Date.now();
-      const timestep = options.timestep || 604800000; // 1 week
-      
-      while (time <= endTime && person.attributes.get('alive')) {
-        await moduleResult.engine.process(person, time);
-        time += timestep;
-      }
-    }
+    // Clone each module engine for this person to avoid state pollution
+    const engines = orderModules(modules)
+      .filter(moduleResult => moduleResult.errors.length === 0)
+      .map(moduleResult => moduleResult.engine.clone());
+    
+    // Simulate person's entire life across all modules at once
+    await simulateLife(person, engines, {
+      timestep: options.timestep || 604800000, // 1 week
+      endTime: options.referenceTime || Date.now()
+    });
     
     // Serialize person for transfer
     persons.push(serializePerson(person));
@@ -71,12 +84,13 @@ async function handleGenerate(seeds: number[], options: any): Promise<WorkerResu
   };
 }
 
-// Serialize person to plain object for worker transfer
+// Serialize person to plain object for worker transfer. Module contexts
+// hold states, which cannot be cloned, and are only needed while simulating.
 function serializePerson(person: Person): any {
   return {
     id: person.id,
     seed: person.seed,
-    attributes: Array.from(person.attributes.entries()),
+    attributes: Array.from(person.attributes.entries()).filter(([key]) => !isModuleContextKey(key)),
     record: person.record,
     birthDate: person.birthDate.toISOString(),
     deathDate: person.deathDate?.toISOString(),
@@ -5,21 +5,32 @@ import {
 } from '../types/index.ts';
 import { PersonFactory } from '../models/person-factory.ts';
 import { ModuleLoader } from '../engine/module-loader.ts';
+import { ModuleEngine } from '../engine/module-engine.ts';
 import { PersonStorage, InMemoryPersonStorage } from '../storage/index.ts';
-import { FHIRExporter } from '../export/fhir/index.ts';
+import { createFHIRExporter } from '../export/fhir/versions.ts';
+import { FHIRBulkExporter } from '../export/fhir/bulk.ts';
+import { CSVExporter } from '../export/csv/index.ts';
+import { JSONExporter } from '../export/json/index.ts';
+import { Demographics } from '../demographics/index.ts';
+import { ProviderNetwork, getProviderNetwork, setProviderNetwork } from '../providers/index.ts';
 import { WorkerPool } from './worker-pool.ts';
+import { orderModules, simulateLife } from './lifecycle.ts';
 import { registerAllStates } from '../engine/states/index.ts';
 
 export class Generator {
   private options: GeneratorOptions;
-  private storage: PersonStorage;
+  private storage?: PersonStorage;
   private moduleLoader: ModuleLoader;
   private workerPool?: WorkerPool;
+  private bulkExporter?: FHIRBulkExporter;
+  private csvExporter?: CSVExporter;
+  private demographics?: Demographics;
+  private providerNetwork?: ProviderNetwork;
   private startTime: number = 0;
   
   constructor(
     options: GeneratorOptions,
-    storage: PersonStorage = new InMemoryPersonStorage()
+    storage?: PersonStorage
   ) {
     this.options = {
       population: 1,
@@ -31,7 +42,11 @@ export class Generator {
       ...options
     };
     
-    this.storage = storage;
+    // Bulk data and CSV are streamed to their files as persons are
+    // generated, so they are only kept when a storage is given
+    const streaming = this.options.exportFormat === 'csv' ||
+      (this.options.exportFormat === 'fhir' && this.options.bulkData);
+    this.storage = storage || (streaming ? undefined : new InMemoryPersonStorage());
     this.moduleLoader = new ModuleLoader();
     
     // Register all state types
@@ -53,188 +68,308 @@ export class Generator {
     
     console.log(`Loaded ${modules.size} modules`);
     
-    // Generate persons
-    const persons = await this.generatePopulation();
-    
-    // Export if requested
-    if (this.options.exportFormat) {
-      await this.exportPersons(persons);
+    // Persons are drawn from census data for the chosen state and city
+    if (this.options.demographicsDirectory) {
+      const demographics = await Demographics.load(this.options.demographicsDirectory);
+      this.demographics = demographics.select(this.options.state, this.options.city);
+    } else if (this.options.state) {
+      throw new Error('Generating persons for a state requires demographics data');
     }
     
-    // Calculate statistics
-    const stats = this.calculateStats(persons);
+    // Encounters are attributed to providers once they are loaded
+    if (this.options.providersDirectory) {
+      this.providerNetwork = await ProviderNetwork.load(this.options.providersDirectory);
+      
+      console.log(`Loaded ${this.providerNetwork.getProviders().length} providers`);
+    }
     
-    // Cleanup
-    if (this.workerPool) {
-      await this.workerPool.terminate();
+    // Bulk data and CSV rows are written as persons are generated
+    if (this.options.exportFormat === 'fhir' && this.options.bulkData) {
+      this.bulkExporter = new FHIRBulkExporter(this.options.outputDirectory!, {
+        exporter: createFHIRExporter(this.options.fhirVersion)
+      });
+    } else if (this.options.exportFormat === 'csv') {
+      this.csvExporter = new CSVExporter(this.options.outputDirectory!);
     }
     
-    return stats;
+    // The simulation uses this generator's network (or none) only while it runs
+    const previousNetwork = getProviderNetwork();
+    setProviderNetwork(this.providerNetwork);
+    
+    try {
+      // Generate persons
+      const stats = this.createStats();
+      const persons = await this.generatePopulation(stats);
+      
+      // Export if requested
+      if (this.options.exportFormat) {
+        await this.exportPersons(persons, stats.totalGenerated);
+      }
+      
+      stats.elapsedTime = Date.now() - this.startTime;
+      
+      return stats;
+    } finally {
+      setProviderNetwork(previousNetwork);
+      
+      // Cleanup
+      if (this.workerPool) {
+        await this.workerPool.terminate();
+      }
+    }
   }
   
   // Generate a single person
   async generatePerson(seed?: number): Promise<Person> {
+    const person = await this.simulatePerson(seed);
+    
+    // Save person
+    await this.storage?.save(person);
+    await this.bulkExporter?.exportPerson(person);
+    await this.csvExporter?.exportPerson(person);
+    
+    return person;
+  }
+  
+  // Create a person and simulate their life
+  private async simulatePerson(seed?: number): Promise<Person> {
     const person = PersonFactory.createPerson({
-      seed: seed || this.options.seed
+      seed: seed || this.options.seed,
+      gender: this.options.gender,
+      minAge: this.options.minAge,
+      maxAge: this.options.maxAge,
+      referenceTime: this.options.referenceTime,
+      demographics: this.demographics
     });
     
-    // Process all modules for this person
-    const modules = this.moduleLoader.getAllModules();
+    // Clone each module engine for this person to avoid state pollution
+    const engines: ModuleEngine[] = [];
     
-    for (const [name, moduleResult] of modules) {
+    for (const moduleResult of orderModules(this.moduleLoader.getAllModules())) {
       if (moduleResult.errors.length > 0) {
-        console.warn(`Skipping module ${name} due to errors`);
+        console.warn(`Skipping module ${moduleResult.module.name} due to errors`);
         continue;
       }
       
-      // Clone the module engine for this person to avoid state pollution
-      const engineClone = moduleResult.engine.clone();
-      
-      // Simulate person's entire life
-      let time = person.birthDate.getTime();
-      const endTime = this.options.referenceTime || Date.now();
-      
-      while (time <= endTime && person.attributes.get('alive')) {
-        await engineClone.process(person, time);
-        time += this.options.timestep || 604800000; // 1 week
-      }
+      engines.push(moduleResult.engine.clone());
     }
     
-    // Save person
-    await this.storage.save(person);
+    // Simulate person's entire life across all modules at once
+    await simulateLife(person, engines, {
+      timestep: this.options.timestep || 604800000, // 1 week
+      endTime: this.options.referenceTime || Date.now()
+    });
     
     return person;
   }
   
-  // Generate the population
-  private async generatePopulation(): Promise<Person[]> {
+  // Whether a simulated person is kept. Persons who are not are discarded
+  // and replaced by persons of further seeds. A person is kept if they ever
+  // had one of the conditions, resolved ones included. Conditions are given
+  // as `system|code` (e.g. `SNOMED-CT|254837009`) or as a code of any system.
+  private keep(person: Person): boolean {
+    const keepConditions = this.options.keepConditions;
+    if (!keepConditions?.length) {
+      return true;
+    }
+    
+    return keepConditions.some(keepCondition => {
+      const separator = keepCondition.lastIndexOf('|');
+      const system = separator >= 0 ? keepCondition.slice(0, separator) : undefined;
+      const code = keepCondition.slice(separator + 1);
+      
+      return person.record.conditions.some(condition =>
+        condition.codes.coding.some(coding =>
+          coding.code === code && (system === undefined || coding.system === system)
+        )
+      );
+    });
+  }
+  
+  // Generate the population, simulating persons of further seeds until
+  // enough of them are kept or the attempts run out
+  private async generatePopulation(stats: GenerationStats): Promise<Person[]> {
     const population = this.options.population;
-    const baseSeeds = this.generateSeeds(population);
+    const maxAttempts = this.options.maxAttempts ?? population * 100;
+    const baseSeed = this.options.seed || Date.now();
+    const persons: Person[] = [];
+    let attempts = 0;
     
-    if (this.workerPool && population > 10) {
-      // Use workers for parallel generation
-      return this.generateWithWorkers(baseSeeds);
-    } else {
-      // Generate sequentially
-      return this.generateSequentially(baseSeeds);
+    while (stats.totalGenerated < population && attempts < maxAttempts) {
+      const count = Math.min(population - stats.totalGenerated, maxAttempts - attempts);
+      const seeds = this.generateSeeds(baseSeed, attempts, count);
+      attempts += count;
+      stats.attempts = attempts;
+      
+      if (this.workerPool && count > 10) {
+        // Use workers for parallel generation
+        await this.generateWithWorkers(seeds, persons, stats);
+      } else {
+        // Generate sequentially
+        await this.generateSequentially(seeds, persons, stats);
+      }
     }
+    
+    return persons;
   }
   
-  // Generate persons sequentially
-  private async generateSequentially(seeds: number[]): Promise<Person[]> {
-    const persons: Person[] = [];
+  // Save, export and count a kept person. Persons streamed as Bulk Data or
+  // CSV are not held on to.
+  private async keepPerson(person: Person, persons: Person[], stats: GenerationStats): Promise<void> {
+    await this.storage?.save(person);
+    await this.bulkExporter?.exportPerson(person);
+    await this.csvExporter?.exportPerson(person);
+    this.countPerson(stats, person);
     
-    for (let i = 0; i < seeds.length; i++) {
-      const person = await this.generatePerson(seeds[i]);
+    if (!this.bulkExporter && !this.csvExporter) {
       persons.push(person);
+    }
+  }
+  
+  // Generate persons sequentially
+  private async generateSequentially(seeds: number[], persons: Person[], stats: GenerationStats): Promise<void> {
+    for (let i = 0; i < seeds.length; i++) {
+      const person = await this.simulatePerson(seeds[i]);
+      
+      if (this.keep(person)) {
+        await this.keepPerson(person, persons, stats);
+      }
       
       // Progress logging
       if ((i + 1) % 10 === 0) {
         console.log(`Generated ${i + 1}/${seeds.length} persons`);
       }
     }
-    
-    return persons;
   }
   
   // Generate persons using workers
-  private async generateWithWorkers(seeds: number[]): Promise<Person[]> {
+  private async generateWithWorkers(seeds: number[], persons: Person[], stats: GenerationStats): Promise<void> {
     console.log(`Generating ${seeds.length} persons using ${this.options.parallelWorkers} workers`);
     
     const results = await this.workerPool!.generate(seeds, {
       modules: this.options.modules,
+      providersDirectory: this.options.providersDirectory,
+      demographicsDirectory: this.options.demographicsDirectory,
+      state: this.options.state,
+      city: this.options.city,
+      gender: this.options.gender,
+      minAge: this.options.minAge,
+      maxAge: this.options.maxAge,
       timestep: this.options.timestep,
       referenceTime: this.options.referenceTime
     });
     
-    // Save all persons
-    await this.storage.saveBatch(results);
-    
-    return results;
+    for (const person of results) {
+      if (this.keep(person)) {
+        await this.keepPerson(person, persons, stats);
+      }
+    }
   }
   
-  // Generate seeds for persons
-  private generateSeeds(count: number): number[] {
-    const baseSeed = this.options.seed || Date.now();
+  // Generate deterministic seeds based on the base seed, from the seed of
+  // the first person onwards
+  private generateSeeds(baseSeed: number, first: number, count: number): number[] {
     const seeds: number[] = [];
     
-    for (let i = 0; i < count; i++) {
-      // Generate deterministic seeds based on base seed
+    for (let i = first; i < first + count; i++) {
       seeds.push(baseSeed + i * 1000);
     }
     
     return seeds;
   }
   
-  // Export persons to files
-  private async exportPersons(persons: Person[]): Promise<void> {
+  // Export persons to files. Bulk Data and CSV have been written as they
+  // were generated, and only the count of them is given.
+  private async exportPersons(persons: Person[], count: number): Promise<void> {
     const { mkdir } = await import('node:fs/promises');
     await mkdir(this.options.outputDirectory!, { recursive: true });
     
-    if (this.options.exportFormat === 'fhir') {
-      const exporter = new FHIRExporter();
+    const network = this.providerNetwork;
+    
+    if (this.bulkExporter) {
+      if (network) {
+        await this.bulkExporter.exportProviders(network.getProviders(), network.getClinicians());
+      }
+      const manifest = await this.bulkExporter.finish();
+      
+      console.log(`Exported ${count} persons as FHIR Bulk Data ` +
+        `(${manifest.output.length} resource types) to ${this.options.outputDirectory}`);
+    } else if (this.options.exportFormat === 'fhir') {
+      const exporter = createFHIRExporter(this.options.fhirVersion);
       
       for (const person of persons) {
         const filepath = `${this.options.outputDirectory}/${person.id}.json`;
         await exporter.exportToFile(person, filepath);
       }
       
+      // Shared provider bundles, uploaded before the patient bundles
+      if (network) {
+        await exporter.exportProvidersToFile(network.getProviders(), `${this.options.outputDirectory}/hospitalInformation.json`);
+        await exporter.exportCliniciansToFile(network.getClinicians(), `${this.options.outputDirectory}/practitionerInformation.json`);
+      }
+      
       console.log(`Exported ${persons.length} FHIR bundles to ${this.options.outputDirectory}`);
+    } else if (this.csvExporter) {
+      console.log(`Exported ${count} persons as CSV to ${this.options.outputDirectory}`);
+    } else if (this.options.exportFormat === 'json') {
+      const exporter = new JSONExporter();
+      
+      for (const person of persons) {
+        const filepath = `${this.options.outputDirectory}/${person.id}.json`;
+        await exporter.exportToFile(person, filepath);
+      }
+      
+      console.log(`Exported ${persons.length} JSON records to ${this.options.outputDirectory}`);
     }
-    
-    // Add other export formats as needed
   }
   
-  // Calculate generation statistics
-  private calculateStats(persons: Person[]): GenerationStats {
-    const elapsedTime = Date.now() - this.startTime;
-    
-    const stats: GenerationStats = {
-      totalGenerated: persons.length,
+  // Statistics of a population yet to be generated
+  private createStats(): GenerationStats {
+    return {
+      totalGenerated: 0,
+      attempts: 0,
       livingPatients: 0,
       deceasedPatients: 0,
       averageAge: 0,
       conditions: {},
       medications: {},
       procedures: {},
-      elapsedTime
+      elapsedTime: 0
     };
+  }
+  
+  // Add a kept person to the statistics
+  private countPerson(stats: GenerationStats, person: Person): void {
+    stats.totalGenerated++;
     
-    let totalAge = 0;
+    // Living vs deceased
+    if (person.deathDate) {
+      stats.deceasedPatients++;
+    } else {
+      stats.livingPatients++;
+    }
     
-    for (const person of persons) {
-      // Living vs deceased
-      if (person.deathDate) {
-        stats.deceasedPatients++;
-      } else {
-        stats.livingPatients++;
-      }
-      
-      // Age calculation
-      const ageMs = (this.options.referenceTime || Date.now()) - person.birthDate.getTime();
-      totalAge += ageMs / (365.25 * 24 * 60 * 60 * 1000);
-      
-      // Condition counts
-      for (const condition of person.record.conditions) {
-        const code = condition.codes.coding[0]?.code || 'unknown';
-        stats.conditions[code] = (stats.conditions[code] || 0) + 1;
-      }
-      
-      // Medication counts
-      for (const medication of person.record.medications) {
-        const code = medication.codes.coding[0]?.code || 'unknown';
-        stats.medications[code] = (stats.medications[code] || 0) + 1;
-      }
-      
-      // Procedure counts
-      for (const procedure of person.record.procedures) {
-        const code = procedure.codes.coding[0]?.code || 'unknown';
-        stats.procedures[code] = (stats.procedures[code] || 0) + 1;
-      }
+    // Age calculation (running average)
+    const ageMs = (this.options.referenceTime || Date.now()) - person.birthDate.getTime();
+    const age = ageMs / (365.25 * 24 * 60 * 60 * 1000);
+    stats.averageAge += (age - stats.averageAge) / stats.totalGenerated;
+    
+    // Condition counts
+    for (const condition of person.record.conditions) {
+      const code = condition.codes.coding[0]?.code || 'unknown';
+      stats.conditions[code] = (stats.conditions[code] || 0) + 1;
     }
     
-    stats.averageAge = persons.length > 0 ? totalAge / persons.length : 0;
+    // Medication counts
+    for (const medication of person.record.medications) {
+      const code = medication.codes.coding[0]?.code || 'unknown';
+      stats.medications[code] = (stats.medications[code] || 0) + 1;
+    }
     
-    return stats;
+    // Procedure counts
+    for (const procedure of person.record.procedures) {
+      const code = procedure.codes.coding[0]?.code || 'unknown';
+      stats.procedures[code] = (stats.procedures[code] || 0) + 1;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { Person } from '../types/index.ts';
+import { ModuleEngine } from '../engine/module-engine.ts';
+import { ModuleLoadResult } from '../engine/module-loader.ts';
+
+export interface LifecycleOptions {
+  timestep: number;
+  endTime: number;
+}
+
+// Top-level modules in a deterministic order (by path key), so every run
+// processes modules in the same sequence within a timestep
+export function orderModules(modules: Map<string, ModuleLoadResult>): ModuleLoadResult[] {
+  return Array.from(modules.values())
+    .filter(moduleResult => !moduleResult.submodule)
+    .sort((a, b) => {
+      const keyA = a.key || a.module.name;
+      const keyB = b.key || b.module.name;
+      return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+    });
+}
+
+// Simulate a person's life from birth to the end time, advancing all
+// modules in lock-step so each timestep sees what the others did before it
+export async function simulateLife(
+  person: Person,
+  engines: ModuleEngine[],
+  options: LifecycleOptions
+): Promise<void> {
+  let time = person.birthDate.getTime();
+  
+  while (time <= options.endTime && person.attributes.get('alive')) {
+    for (const engine of engines) {
+      // A death earlier in this timestep stops the remaining modules
+      if (!person.attributes.get('alive')) {
+        break;
+      }
+      
+      await engine.process(person, time);
+    }
+    
+    time += options.timestep;
+  }
+}
@@ -1,5 +1,6 @@
 import { Person } from '../types/index.ts';
 import { Worker } from 'worker_threads';
+import { fileURLToPath } from 'node:url';
 
 export interface WorkerMessage {
   cmd: 'generate' | 'terminate';
@@ -24,8 +25,9 @@ export class WorkerPool {
   }
   
   private createWorker(): void {
+    // Workers are started from a file path; URLs are rejected
     const worker = new Worker(
-      new URL('./generation-worker.ts', import.meta.url).href,
+      fileURLToPath(new URL('./generation-worker.ts', import.meta.url)),
       {
         type: 'module'
       }
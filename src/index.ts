@@ -1 +1,43 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+// Public API
+export * from './types/index.ts';
+export { Generator } from './generator/generator.ts';
+export { simulateLife, orderModules } from './generator/lifecycle.ts';
+export { PersonFactory } from './models/person-factory.ts';
+export type { PersonFactoryOptions } from './models/person-factory.ts';
+export { ModuleEngine } from './engine/module-engine.ts';
+export { ModuleLoader } from './engine/module-loader.ts';
+export type { ModuleLoadResult } from './engine/module-loader.ts';
+export { registerAllStates } from './engine/states/index.ts';
+export { registerStateType } from './engine/state.ts';
+export { evaluateCondition } from './engine/condition.ts';
+export { FHIRExporter } from './export/fhir/index.ts';
+export type { FHIRBundle, FHIRResource } from './export/fhir/index.ts';
+export { FHIRSTU3Exporter } from './export/fhir/stu3.ts';
+export { FHIRDSTU2Exporter } from './export/fhir/dstu2.ts';
+export { createFHIRExporter, FHIR_VERSIONS } from './export/fhir/versions.ts';
+export { FHIRBulkExporter } from './export/fhir/bulk.ts';
+export type { BulkDataManifest, BulkDataExportOptions } from './export/fhir/bulk.ts';
+export { CSVExporter, CSV_HEADERS } from './export/csv/index.ts';
+export type { CSVExportOptions, CSVTable } from './export/csv/index.ts';
+export { JSONExporter, JSON_SCHEMA_VERSION } from './export/json/index.ts';
+export type { PersonJSON } from './export/json/index.ts';
+export {
+  ProviderNetwork,
+  getProviderNetwork,
+  setProviderNetwork,
+  PROVIDER_FILES,
+  ENCOUNTER_PROVIDER_TYPES,
+  ENCOUNTER_SPECIALTIES
+} from './providers/index.ts';
+export type { ProviderNetworkOptions } from './providers/index.ts';
+export { Demographics, STATE_ABBREVIATIONS } from './demographics/index.ts';
+export type { CityDemographics, ZipCode, DemographicsSample } from './demographics/index.ts';
+export {
+  InMemoryPersonStorage,
+  FileBasedPersonStorage,
+  HybridPersonStorage
+} from './storage/index.ts';
+export type { PersonStorage } from './storage/index.ts';
+export { Config, getConfig, initConfig } from './config/index.ts';
+export type { ConfigOptions } from './config/index.ts';
+export { runCli } from './cli.ts';
@@ -1,27 +1,36 @@
 import { Person, HealthRecord } from '../types/index.ts';
 import { Random } from '../utils/random.ts';
 import { generateUUID } from '../utils/uuid.ts';
+import { Demographics } from '../demographics/index.ts';
 
 export interface PersonFactoryOptions {
   seed?: number;
   birthDate?: Date;
   gender?: 'M' | 'F';
+  // Ages (in years) to draw the birth date from
+  minAge?: number;
+  maxAge?: number;
+  // Time ages are measured at (default: now), the end of the simulation
+  referenceTime?: number;
   location?: {
     city: string;
     state: string;
     country: string;
   };
+  // Census data to draw the location, gender, age, race, ethnicity and
+  // income from
+  demographics?: Demographics;
 }
 
 export class PersonFactory {
   // Common first names by gender
-  private static readonly FIRST_NAMES = {
+  static readonly FIRST_NAMES = {
     M: ['James', 'John', 'Robert', 'Michael', 'William', 'David', 'Richard', 'Joseph', 'Thomas', 'Christopher'],
     F: ['Mary', 'Patricia', 'Linda', 'Barbara', 'Elizabeth', 'Jennifer', 'Maria', 'Susan', 'Margaret', 'Dorothy']
   };
   
   // Common last names
-  private static readonly LAST_NAMES = [
+  static readonly LAST_NAMES = [
     'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez'
   ];
   
@@ -36,20 +45,43 @@ export class PersonFactory {
     'Hispanic or Latino', 'Not Hispanic or Latino'
   ];
   
+  // Street names and suffixes for home addresses
+  private static readonly STREETS = [
+    'Main', 'Oak', 'Pine', 'Maple', 'Cedar', 'Elm', 'Washington', 'Lake', 'Hill', 'Park'
+  ];
+  private static readonly STREET_SUFFIXES = ['St', 'Ave', 'Rd', 'Ln', 'Way'];
+  
+  // Marital status of adults (v3-MaritalStatus codes)
+  private static readonly MARITAL_STATUSES = ['M', 'M', 'M', 'S', 'S', 'D', 'W'];
+  
+  // Coordinates of the default location
+  private static readonly BOSTON = { latitude: 42.3601, longitude: -71.0589 };
+  
   static createPerson(options: PersonFactoryOptions = {}): Person {
     const seed = options.seed || Date.now() + Math.random() * 1000000;
     const random = new Random(seed);
+    const sample = options.demographics?.sample(random);
+    const referenceTime = options.referenceTime ?? Date.now();
     
     // Determine gender
-    const gender = options.gender || (random.randomBoolean() ? 'M' : 'F');
+    const gender = options.gender || sample?.gender || (random.randomBoolean() ? 'M' : 'F');
     
-    // Generate birth date (between 0 and 100 years ago)
+    // Generate birth date (between 0 and 100 years ago, or within the
+    // sampled age group), limited to the requested ages. A sampled group
+    // outside of them is replaced by the requested ages.
     let birthDate: Date;
     if (options.birthDate) {
       birthDate = options.birthDate;
     } else {
-      const ageInDays = random.randomInt(0, 365 * 100);
-      birthDate = new Date(Date.now() - ageInDays * 24 * 60 * 60 * 1000);
+      const ages = sample?.ageRange || { low: 0, high: 99 };
+      let low = Math.max(ages.low, options.minAge ?? 0);
+      let high = Math.min(ages.high, options.maxAge ?? ages.high);
+      if (low > high) {
+        low = options.minAge ?? 0;
+        high = options.maxAge ?? Math.max(low, 99);
+      }
+      const ageInDays = random.randomInt(365 * low, 365 * (high + 1));
+      birthDate = new Date(referenceTime - ageInDays * 24 * 60 * 60 * 1000);
     }
     
     // Generate names
@@ -57,34 +89,84 @@ export class PersonFactory {
     const lastName = random.choice(this.LAST_NAMES) || 'Unknown';
     
     // Generate demographics
-    const race = random.choice(this.RACES) || 'Other';
-    const ethnicity = random.choice(this.ETHNICITIES) || 'Not Hispanic or Latino';
+    const race = sample?.race || random.choice(this.RACES) || 'Other';
+    const ethnicity = sample?.ethnicity || random.choice(this.ETHNICITIES) || 'Not Hispanic or Latino';
+    
+    // Socioeconomic status, scored 0-1 and bucketed like Synthea
+    const socioeconomicScore = sample?.socioeconomicScore ?? random.random();
+    const socioeconomicCategory = socioeconomicScore >= 0.66 ? 'High'
+      : socioeconomicScore >= 0.25 ? 'Middle'
+      : 'Low';
+    
+    // Identifiers and contact details. SSNs use the 999 area number, which is
+    // never issued, and phone numbers the 555 exchange reserved for fiction.
+    const age = (referenceTime - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+    const ssn = `999-${this.digits(random, 2)}-${this.digits(random, 4)}`;
+    const drivers = `S999${this.digits(random, 5)}`;
+    const phone = `555-${this.digits(random, 3)}-${this.digits(random, 4)}`;
+    const address = `${random.randomInt(1, 1000)} ${random.choice(this.STREETS)} ${random.choice(this.STREET_SUFFIXES)}`;
+    const maritalStatus = age >= 18 ? random.choice(this.MARITAL_STATUSES)! : 'S';
+    const language = ethnicity === 'Hispanic or Latino' && random.randomBoolean(0.4) ? 'Spanish' : 'English';
+    
+    // About 3% of births are twins; the attribute holds the birth order
+    const multipleBirth = random.randomBoolean(0.03) ? random.randomInt(1, 3) : false;
     
     // Create person
     const person: Person = {
-      id: generateUUID(),
+      id: generateUUID(random),
       seed,
-      attributes: new Map([
+      attributes: new Map<string, any>([
         ['alive', true],
         ['first_name', firstName],
         ['last_name', lastName],
-        ['name', `${firstName} ${lastName}`]
+        ['name', `${firstName} ${lastName}`],
+        ['socioeconomic_score', socioeconomicScore],
+        ['socioeconomic_category', socioeconomicCategory],
+        ['ssn', ssn],
+        ['telecom', phone],
+        ['address', address],
+        ['marital_status', maritalStatus],
+        ['language', language],
+        ['multiple_birth', multipleBirth]
       ]),
       record: this.createEmptyHealthRecord(),
       birthDate,
       gender,
       race,
       ethnicity,
-      location: options.location || {
+      location: options.location || (sample ? {
+        city: sample.city,
+        state: sample.state,
+        country: 'US',
+        coordinates: sample.coordinates
+      } : {
         city: 'Boston',
         state: 'MA', 
-        country: 'US'
-      }
+        country: 'US',
+        coordinates: { ...this.BOSTON }
+      })
     };
     
+    if (sample?.zip) {
+      person.attributes.set('zip', sample.zip);
+    }
+    
+    // Driver's licenses are issued from 16
+    if (age >= 16) {
+      person.attributes.set('drivers', drivers);
+    }
+    
     return person;
   }
   
+  private static digits(random: Random, length: number): string {
+    let digits = '';
+    for (let i = 0; i < length; i++) {
+      digits += random.randomInt(0, 10).toString();
+    }
+    return digits;
+  }
+  
   private static createEmptyHealthRecord(): HealthRecord {
     return {
       encounters: [],
@@ -96,7 +178,9 @@ export class PersonFactory {
       carePlans: [],
       allergies: [],
       devices: [],
-      imagingStudies: []
+      supplies: [],
+      imagingStudies: [],
+      reports: []
     };
   }
 }
\ No newline at end of file
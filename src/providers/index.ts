@@ -0,0 +1,249 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Person, Encounter, Medication, Provider, ProviderType, Clinician } from '../types/index.ts';
+import { PersonFactory } from '../models/person-factory.ts';
+import { Random } from '../utils/random.ts';
+import { parseCSV } from '../utils/csv.ts';
+import { haversineDistance } from '../utils/geo.ts';
+
+// Provider files of a providers directory, in the Synthea layout. Missing
+// files are skipped.
+export const PROVIDER_FILES: Record<ProviderType, string> = {
+  hospital: 'hospitals.csv',
+  primary: 'primary_care_facilities.csv',
+  urgent: 'urgent_care_facilities.csv',
+  pharmacy: 'pharmacies.csv'
+};
+
+// Facility type each encounter class is routed to
+export const ENCOUNTER_PROVIDER_TYPES: Record<Encounter['encounterClass'], ProviderType> = {
+  wellness: 'primary',
+  ambulatory: 'primary',
+  home: 'primary',
+  virtual: 'primary',
+  urgent: 'urgent',
+  emergency: 'hospital',
+  inpatient: 'hospital',
+  snf: 'hospital',
+  hospice: 'hospital'
+};
+
+// Specialty of the clinician seeing each encounter class
+export const ENCOUNTER_SPECIALTIES: Record<Encounter['encounterClass'], string> = {
+  wellness: 'GENERAL PRACTICE',
+  ambulatory: 'GENERAL PRACTICE',
+  home: 'GENERAL PRACTICE',
+  virtual: 'GENERAL PRACTICE',
+  urgent: 'GENERAL PRACTICE',
+  emergency: 'EMERGENCY MEDICINE',
+  inpatient: 'INTERNAL MEDICINE',
+  snf: 'GERIATRIC MEDICINE',
+  hospice: 'HOSPICE AND PALLIATIVE CARE'
+};
+
+// Specialties staffed at each facility type. Hospitals have all of them, as
+// they take the encounters of areas without a clinic.
+const PROVIDER_SPECIALTIES: Record<ProviderType, string[]> = {
+  hospital: ['GENERAL PRACTICE', 'EMERGENCY MEDICINE', 'INTERNAL MEDICINE', 'GERIATRIC MEDICINE', 'HOSPICE AND PALLIATIVE CARE'],
+  primary: ['GENERAL PRACTICE'],
+  urgent: ['GENERAL PRACTICE'],
+  pharmacy: []
+};
+
+// Read a provider CSV row. Column names are matched case-insensitively,
+// so both Synthea's `LAT`/`LON` and lowercase headers work.
+function readProvider(row: Record<string, string>, type: ProviderType, index: number): Provider {
+  const columns = new Map(Object.entries(row).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+  const column = (name: string) => columns.get(name) || undefined;
+  
+  const provider: Provider = {
+    id: column('id') || `${type}-${index + 1}`,
+    name: column('name') || `${type}-${index + 1}`,
+    type,
+    address: column('address'),
+    city: column('city'),
+    state: column('state'),
+    zip: column('zip'),
+    phone: column('phone')
+  };
+  
+  const latitude = parseFloat(column('lat') || column('latitude') || '');
+  const longitude = parseFloat(column('lon') || column('longitude') || '');
+  if (!isNaN(latitude) && !isNaN(longitude)) {
+    provider.coordinates = { latitude, longitude };
+  }
+  
+  return provider;
+}
+
+export interface ProviderNetworkOptions {
+  // Seed of the generated clinicians (default: 1)
+  seed?: number;
+}
+
+// Network of healthcare facilities. Persons are assigned the nearest
+// facility of each type the first time they need one, kept as the
+// `preferred_provider_<type>` attributes; the primary care one is their PCP.
+// Each facility has one clinician per specialty it staffs.
+export class ProviderNetwork {
+  private clinicians: Clinician[] = [];
+  private byId = new Map<string, Provider>();
+  private staff = new Map<string, Map<string, Clinician>>();
+  
+  constructor(
+    private providers: Provider[],
+    options: ProviderNetworkOptions = {}
+  ) {
+    const random = new Random(options.seed ?? 1);
+    
+    for (const provider of providers) {
+      this.byId.set(provider.id, provider);
+      const specialties = new Map<string, Clinician>();
+      
+      for (const specialty of PROVIDER_SPECIALTIES[provider.type]) {
+        const gender = random.randomBoolean() ? 'M' : 'F';
+        const clinician: Clinician = {
+          // NPIs starting with 999 are not issued
+          id: `999${String(this.clinicians.length).padStart(7, '0')}`,
+          firstName: random.choice(PersonFactory.FIRST_NAMES[gender])!,
+          lastName: random.choice(PersonFactory.LAST_NAMES)!,
+          gender,
+          specialty,
+          provider: provider.id
+        };
+        
+        this.clinicians.push(clinician);
+        specialties.set(specialty, clinician);
+      }
+      
+      this.staff.set(provider.id, specialties);
+    }
+  }
+  
+  // Load the provider files of a directory
+  static async load(directory: string, options: ProviderNetworkOptions = {}): Promise<ProviderNetwork> {
+    const providers: Provider[] = [];
+    
+    for (const [type, file] of Object.entries(PROVIDER_FILES) as [ProviderType, string][]) {
+      let content: string;
+      try {
+        content = await readFile(join(directory, file), 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+      
+      parseCSV(content).forEach((row, index) => {
+        providers.push(readProvider(row, type, index));
+      });
+    }
+    
+    if (providers.length === 0) {
+      throw new Error(`No providers found in ${directory}`);
+    }
+    
+    return new ProviderNetwork(providers, options);
+  }
+  
+  getProviders(): Provider[] {
+    return this.providers;
+  }
+  
+  getClinicians(): Clinician[] {
+    return this.clinicians;
+  }
+  
+  getProvider(id: string): Provider | undefined {
+    return this.byId.get(id);
+  }
+  
+  // Nearest provider of a type. Without coordinates on either side the
+  // first provider of the type is used.
+  findNearest(type: ProviderType, coordinates?: { latitude: number; longitude: number }): Provider | undefined {
+    let nearest: Provider | undefined;
+    let nearestDistance = Infinity;
+    
+    for (const provider of this.providers) {
+      if (provider.type !== type) {
+        continue;
+      }
+      if (!coordinates || !provider.coordinates) {
+        nearest = nearest || provider;
+        continue;
+      }
+      
+      const distance = haversineDistance(coordinates, provider.coordinates);
+      if (distance < nearestDistance) {
+        nearest = provider;
+        nearestDistance = distance;
+      }
+    }
+    
+    return nearest;
+  }
+  
+  // The person's provider of a type, assigned by proximity on first use.
+  // Areas without a facility of the type use the nearest hospital.
+  assignProvider(person: Person, type: ProviderType): Provider | undefined {
+    const attribute = `preferred_provider_${type}`;
+    const assigned = person.attributes.get(attribute);
+    if (assigned) {
+      return this.getProvider(assigned);
+    }
+    
+    const coordinates = person.location?.coordinates;
+    const provider = this.findNearest(type, coordinates) || this.findNearest('hospital', coordinates);
+    if (provider) {
+      person.attributes.set(attribute, provider.id);
+    }
+    
+    return provider;
+  }
+  
+  // The person's primary care provider
+  assignPrimaryCare(person: Person): Provider | undefined {
+    return this.assignProvider(person, 'primary');
+  }
+  
+  // Set the provider and clinician of an encounter from its class
+  attributeEncounter(person: Person, encounter: Encounter): void {
+    const provider = this.assignProvider(person, ENCOUNTER_PROVIDER_TYPES[encounter.encounterClass]);
+    if (!provider) {
+      return;
+    }
+    
+    encounter.provider = provider.id;
+    
+    const clinician = this.staff.get(provider.id)?.get(ENCOUNTER_SPECIALTIES[encounter.encounterClass]);
+    if (clinician) {
+      encounter.clinician = clinician.id;
+    }
+  }
+  
+  // Set the pharmacy dispensing a prescription. Medications administered
+  // during an encounter are not dispensed.
+  attributeMedication(person: Person, medication: Medication): void {
+    if (medication.administration) {
+      return;
+    }
+    
+    const pharmacy = this.assignProvider(person, 'pharmacy');
+    if (pharmacy) {
+      medication.pharmacy = pharmacy.id;
+    }
+  }
+}
+
+// Global provider network used by the simulation; encounters have no
+// provider while none is set
+let globalNetwork: ProviderNetwork | undefined;
+
+export function getProviderNetwork(): ProviderNetwork | undefined {
+  return globalNetwork;
+}
+
+export function setProviderNetwork(network: ProviderNetwork | undefined): void {
+  globalNetwork = network;
+}
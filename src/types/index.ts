@@ -33,6 +33,9 @@ export interface Module {
   gmf_version?: number;
   remarks?: string[];
   states: Record<string, StateDefinition>;
+  // Key of the module's per-person context (default: the name). Submodules
+  // get one per calling state, see CallSubmodule.
+  contextKey?: string;
 }
 
 // State definition - the JSON representation
@@ -107,7 +110,9 @@ export interface HealthRecord {
   carePlans: CarePlan[];
   allergies: Allergy[];
   devices: Device[];
+  supplies: Supply[];
   imagingStudies: ImagingStudy[];
+  reports: DiagnosticReport[];
 }
 
 // Clinical entry types
@@ -117,6 +122,7 @@ export interface Entry {
   endTime?: number;
   codes: CodeableConcept;
   type: string;
+  encounter?: string; // Id of the encounter the entry was recorded in
 }
 
 export interface Encounter extends Entry {
@@ -124,8 +130,8 @@ export interface Encounter extends Entry {
   encounterClass: 'ambulatory' | 'emergency' | 'inpatient' | 'urgent' | 'wellness' | 'hospice' | 'snf' | 'home' | 'virtual';
   reason?: CodeableConcept;
   discharge?: CodeableConcept;
-  provider?: string;
-  clinician?: string;
+  provider?: string; // Id of the provider organization
+  clinician?: string; // Id (NPI) of the clinician
 }
 
 export interface Condition extends Entry {
@@ -143,7 +149,11 @@ export interface Medication extends Entry {
   };
   duration?: Duration;
   prescriber?: string;
+  pharmacy?: string; // Provider id of the dispensing pharmacy
+  reason?: CodeableConcept;
   stopReason?: CodeableConcept;
+  chronic?: boolean;
+  administration?: boolean;
 }
 
 export interface Observation extends Entry {
@@ -151,6 +161,12 @@ export interface Observation extends Entry {
   category?: string;
   value?: any;
   unit?: string;
+  observations?: Observation[]; // Components of a multi-observation panel
+}
+
+export interface DiagnosticReport extends Entry {
+  type: 'DiagnosticReport';
+  observations: string[]; // Ids of the result observations
 }
 
 export interface Procedure extends Entry {
@@ -161,7 +177,8 @@ export interface Procedure extends Entry {
 
 export interface Immunization extends Entry {
   type: 'Immunization';
-  series?: string;
+  series?: string; // Name of the vaccine series, e.g. 'dtap'
+  doseNumber?: number; // Position of this dose within the series
   doseQuantity?: {
     value: number;
     unit: string;
@@ -172,11 +189,17 @@ export interface CarePlan extends Entry {
   type: 'CarePlan';
   activities?: CodeableConcept[];
   reason?: CodeableConcept;
+  goals?: CarePlanGoal[];
+}
+
+export interface CarePlanGoal {
+  text?: string;
+  addresses?: CodeableConcept[];
 }
 
 export interface Allergy extends Entry {
   type: 'Allergy';
-  allergyType?: 'food' | 'drug' | 'environmental' | 'biologic';
+  allergyType?: 'allergy' | 'intolerance';
   category?: 'food' | 'medication' | 'environment' | 'biologic';
   criticality?: 'low' | 'high' | 'unable-to-assess';
   reactions?: AllergyReaction[];
@@ -191,27 +214,69 @@ export interface Device extends Entry {
   type: 'Device';
   manufacturer?: string;
   model?: string;
-  udi?: string;
+  udi?: string; // Human readable GS1 UDI carrier
+  deviceIdentifier?: string;
+  lotNumber?: string;
+  serialNumber?: string;
+  manufactureTime?: number;
+  expirationTime?: number;
+}
+
+export interface Supply extends Entry {
+  type: 'Supply';
+  quantity: number;
 }
 
 export interface ImagingStudy extends Entry {
   type: 'ImagingStudy';
+  uid?: string; // DICOM study instance UID
   modality: CodeableConcept;
   bodySite?: CodeableConcept;
   series?: ImagingSeries[];
 }
 
 export interface ImagingSeries {
+  uid?: string;
+  number?: number;
   modality: CodeableConcept;
   bodySite?: CodeableConcept;
   instances?: ImagingInstance[];
 }
 
 export interface ImagingInstance {
+  uid?: string;
+  number?: number;
   title: string;
   sopClass: CodeableConcept;
 }
 
+// Provider types
+export type ProviderType = 'hospital' | 'primary' | 'urgent' | 'pharmacy';
+
+export interface Provider {
+  id: string;
+  name: string;
+  type: ProviderType;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  phone?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface Clinician {
+  id: string; // NPI
+  firstName: string;
+  lastName: string;
+  gender: 'M' | 'F';
+  specialty: string;
+  provider: string; // Id of the provider the clinician works at
+}
+
 // Generator types
 export interface GeneratorOptions {
   population: number;
@@ -220,12 +285,24 @@ export interface GeneratorOptions {
   modules?: string[];
   exportFormat?: 'fhir' | 'csv' | 'json';
   outputDirectory?: string;
+  bulkData?: boolean; // Export FHIR as Bulk Data NDJSON instead of bundles
+  fhirVersion?: FHIRVersion;
+  providersDirectory?: string; // Provider CSV files, see ProviderNetwork
+  demographicsDirectory?: string; // Census CSV files, see Demographics
+  state?: string; // Only generate persons living in this state
+  city?: string; // ... and city
+  minAge?: number; // Only generate persons of these ages (in years)
+  maxAge?: number;
+  gender?: 'M' | 'F'; // Only generate persons of this gender
+  keepConditions?: string[]; // Only keep persons who had one of these conditions (`system|code` or code)
+  maxAttempts?: number; // Persons simulated at most while keeping (default: 100 per person)
   timestep?: number;
   referenceTime?: number;
 }
 
 export interface GenerationStats {
   totalGenerated: number;
+  attempts: number; // Persons simulated, kept or not
   livingPatients: number;
   deceasedPatients: number;
   averageAge: number;
@@ -236,8 +313,11 @@ export interface GenerationStats {
 }
 
 // Export types
+export type FHIRVersion = 'R4' | 'STU3' | 'DSTU2';
+
 export interface ExportOptions {
   format: 'fhir' | 'csv' | 'json';
+  fhirVersion?: FHIRVersion; // Default R4
   outputDirectory: string;
   prettyPrint?: boolean;
   bulkData?: boolean;
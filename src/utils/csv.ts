@@ -0,0 +1,75 @@
+// Quote a CSV field when it contains a delimiter, quote or line break
+export function escapeCSV(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  
+  return text;
+}
+
+// Format a row of values as a CSV line (with trailing newline)
+export function toCSVRow(values: unknown[]): string {
+  return values.map(escapeCSV).join(',') + '\n';
+}
+
+// Parse CSV text into records keyed by the header row. Quoted fields may
+// contain delimiters, escaped quotes and line breaks.
+export function parseCSV(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  
+  const [header, ...records] = rows.filter(values => values.some(value => value !== ''));
+  if (!header) {
+    return [];
+  }
+  
+  return records.map(values => {
+    const record: Record<string, string> = {};
+    header.forEach((name, index) => {
+      record[name] = values[index] ?? '';
+    });
+    return record;
+  });
+}
@@ -0,0 +1,20 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function radians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+// Great-circle distance in kilometers (haversine formula)
+export function haversineDistance(a: Coordinates, b: Coordinates): number {
+  const dLat = radians(b.latitude - a.latitude);
+  const dLon = radians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
@@ -0,0 +1,65 @@
+import { Random } from './random.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Root for example DICOM UIDs (not a registered organization root)
+const DICOM_UID_ROOT = '1.2.840.99999999';
+
+export interface UDI {
+  udi: string; // Human readable form of the carrier
+  deviceIdentifier: string;
+  lotNumber: string;
+  serialNumber: string;
+  manufactureTime: number;
+  expirationTime: number;
+}
+
+function randomDigits(random: Random, length: number): string {
+  let digits = '';
+  for (let i = 0; i < length; i++) {
+    digits += random.randomInt(0, 10).toString();
+  }
+  return digits;
+}
+
+// GS1 dates are YYMMDD
+function gs1Date(time: number): string {
+  const date = new Date(time);
+  const yy = String(date.getUTCFullYear() % 100).padStart(2, '0');
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `${yy}${mm}${dd}`;
+}
+
+// Generate a GS1 formatted UDI for a device issued at the given time:
+// (01) device identifier, (11) manufacture date, (17) expiration date,
+// (10) lot number and (21) serial number
+export function generateUDI(random: Random, time: number): UDI {
+  const deviceIdentifier = '00' + randomDigits(random, 12);
+  const manufactureTime = time - random.randomInt(1, 52) * 7 * DAY_MS;
+  const expirationTime = time + random.randomInt(1, 20) * 365 * DAY_MS;
+  const lotNumber = randomDigits(random, 10);
+  const serialNumber = randomDigits(random, 10);
+
+  const udi = `(01)${deviceIdentifier}` +
+    `(11)${gs1Date(manufactureTime)}` +
+    `(17)${gs1Date(expirationTime)}` +
+    `(10)${lotNumber}` +
+    `(21)${serialNumber}`;
+
+  return { udi, deviceIdentifier, lotNumber, serialNumber, manufactureTime, expirationTime };
+}
+
+// Generate a DICOM study UID. Series and instance UIDs extend the study UID
+// with their numbers, see dicomSeriesUID and dicomInstanceUID.
+export function generateDicomUID(random: Random, time: number): string {
+  return `${DICOM_UID_ROOT}.${random.randomInt(1, 2 ** 31)}.${Math.floor(time)}`;
+}
+
+export function dicomSeriesUID(studyUid: string, seriesNumber: number): string {
+  return `${studyUid}.${seriesNumber}`;
+}
+
+export function dicomInstanceUID(seriesUid: string, instanceNumber: number): string {
+  return `${seriesUid}.${instanceNumber}`;
+}
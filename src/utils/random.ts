@@ -1,5 +1,8 @@
 import { Person } from '../types/index.ts';
 
+// Per-person random streams, see Random.fromPerson
+const personStreams = new WeakMap<Person, Random>();
+
 // Seedable random number generator using Linear Congruential Generator (LCG)
 export class Random {
   private seed: number;
@@ -56,9 +59,16 @@ export class Random {
     return shuffled;
   }
   
-  // Create a Random instance from a person's seed
+  // Get the random stream for a person. The stream is seeded from the
+  // person's seed once and then shared, so successive draws differ while
+  // the whole simulation stays reproducible.
   static fromPerson(person: Person): Random {
-    return new Random(person.seed);
+    let random = personStreams.get(person);
+    if (!random) {
+      random = new Random(person.seed);
+      personStreams.set(person, random);
+    }
+    return random;
   }
   
   // Create a child Random with a new seed based on current state
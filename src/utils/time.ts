@@ -0,0 +1,57 @@
+import { Person, Duration, Range, TimeUnit } from '../types/index.ts';
+import { Random } from './random.ts';
+
+// Convert a quantity in the given unit to milliseconds
+export function convertToMs(value: number, unit: string): number {
+  switch (unit) {
+    case 'years':
+      return value * 365.25 * 24 * 60 * 60 * 1000;
+    case 'months':
+      return value * 30.4375 * 24 * 60 * 60 * 1000;
+    case 'weeks':
+      return value * 7 * 24 * 60 * 60 * 1000;
+    case 'days':
+      return value * 24 * 60 * 60 * 1000;
+    case 'hours':
+      return value * 60 * 60 * 1000;
+    case 'minutes':
+      return value * 60 * 1000;
+    case 'seconds':
+      return value * 1000;
+    default:
+      throw new Error(`Unknown time unit: ${unit}`);
+  }
+}
+
+// Resolve an exact or range duration (as used by Delay-like states) to milliseconds.
+// Returns undefined when neither is specified.
+export function sampleDurationMs(
+  person: Person,
+  exact?: Duration,
+  range?: Range
+): number | undefined {
+  if (exact) {
+    return convertToMs(exact.quantity, exact.unit);
+  }
+  
+  if (range) {
+    const random = Random.fromPerson(person);
+    const value = random.random() * (range.high - range.low) + range.low;
+    return convertToMs(value, range.unit!);
+  }
+  
+  return undefined;
+}
+
+// Pick a concrete duration from either an exact duration or a range
+export function sampleDuration(person: Person, spec: Duration | Range): Duration {
+  if ('quantity' in spec) {
+    return spec;
+  }
+  
+  const random = Random.fromPerson(person);
+  return {
+    quantity: random.random() * (spec.high - spec.low) + spec.low,
+    unit: spec.unit as TimeUnit
+  };
+}
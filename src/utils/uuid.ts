@@ -1,8 +1,24 @@
-// Simple UUID v4 generator
-export function generateUUID(): string {
+import { createHash } from 'node:crypto';
+import { Random } from './random.ts';
+
+// Simple UUID v4 generator. Ids drawn from a seeded stream (such as
+// Random.fromPerson) are the same in every run with the seed.
+export function generateUUID(random?: Random): string {
+  const next = random ? () => random.random() : Math.random;
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
+    const r = (next() * 16) | 0;
     const v = c === 'x' ? r : (r & 0x3) | 0x8;
     return v.toString(16);
   });
-}
\ No newline at end of file
+}
+
+// Name-based UUID (version 5 layout over the SHA-1 of the name), the same
+// every time for the same name
+export function nameUUID(name: string): string {
+  const hash = createHash('sha1').update(name).digest();
+  hash[6] = (hash[6]! & 0x0f) | 0x50;
+  hash[8] = (hash[8]! & 0x3f) | 0x80;
+  
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { runCli, buildGeneratorOptions, CliError } from '../src/cli.ts';
+import { Config } from '../src/config/config.ts';
+
+describe('CLI', () => {
+  const modulesDir = join(tmpdir(), `synthea-cli-test-${Date.now()}`);
+  
+  beforeAll(async () => {
+    await mkdir(join(modulesDir, 'helpers'), { recursive: true });
+    await writeFile(join(modulesDir, 'simple.json'), JSON.stringify({
+      name: 'Simple',
+      states: {
+        Initial: { type: 'Initial', direct_transition: 'Terminal' },
+        Terminal: { type: 'Terminal' }
+      }
+    }));
+    await writeFile(join(modulesDir, 'helpers', 'helper.json'), JSON.stringify({
+      name: 'Helper',
+      states: {
+        Initial: { type: 'Initial', direct_transition: 'Terminal' },
+        Terminal: { type: 'Terminal' }
+      }
+    }));
+  });
+  
+  afterAll(async () => {
+    await rm(modulesDir, { recursive: true, force: true });
+  });
+  
+  test('should build generator options from arguments', () => {
+    const options = buildGeneratorOptions({
+      population: '1000',
+      seed: '42',
+      modules: './modules',
+      format: 'fhir',
+      out: './output',
+      workers: '4',
+      'reference-date': '2025-01-01'
+    }, new Config());
+    
+    expect(options).toEqual({
+      population: 1000,
+      seed: 42,
+      parallelWorkers: 4,
+      modules: ['./modules'],
+      exportFormat: 'fhir',
+      outputDirectory: './output',
+      bulkData: false,
+      fhirVersion: 'R4',
+      referenceTime: Date.UTC(2025, 0, 1, 23, 59, 59)
+    });
+  });
+  
+  test('should fall back to configuration values', () => {
+    const config = new Config({
+      defaults: {
+        generator: { population: 25, seed: 7 },
+        modules: { path: './custom/modules' },
+        providers: { path: './custom/providers' },
+        exporter: { output: './data', bulk_data: true }
+      }
+    });
+    
+    const options = buildGeneratorOptions({ population: '5' }, config);
+    
+    expect(options.population).toBe(5);
+    expect(options.seed).toBe(7);
+    expect(options.modules).toEqual(['./custom/modules']);
+    expect(options.outputDirectory).toBe('./data');
+    expect(options.bulkData).toBe(true);
+    expect(options.providersDirectory).toBe('./custom/providers');
+  });
+  
+  test('should reject invalid arguments', () => {
+    expect(() => buildGeneratorOptions({ population: 'many' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ format: 'xml' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ 'fhir-version': 'R5' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ 'reference-date': '01/01/2025' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({}, new Config(), ['Massachusetts'])).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ demographics: './data' }, new Config(), ['MA', 'Boston', 'extra'])).toThrow(CliError);
+  });
+  
+  test('should read the state and city from positional arguments', () => {
+    const options = buildGeneratorOptions({ demographics: './data' }, new Config(), ['Massachusetts', 'Springfield']);
+    
+    expect(options.demographicsDirectory).toBe('./data');
+    expect(options.state).toBe('Massachusetts');
+    expect(options.city).toBe('Springfield');
+  });
+  
+  test('should build the population filters', () => {
+    const options = buildGeneratorOptions({
+      age: '30-40',
+      gender: 'f',
+      'keep-condition': ['254837009', '408643008'],
+      'max-attempts': '50000'
+    }, new Config());
+    
+    expect(options.minAge).toBe(30);
+    expect(options.maxAge).toBe(40);
+    expect(options.gender).toBe('F');
+    expect(options.keepConditions).toEqual(['254837009', '408643008']);
+    expect(options.maxAttempts).toBe(50000);
+    
+    const defaults = buildGeneratorOptions({}, new Config());
+    expect(defaults.gender).toBeUndefined();
+    expect(defaults.keepConditions).toBeUndefined();
+    
+    expect(() => buildGeneratorOptions({ age: '40-30' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ age: '30' }, new Config())).toThrow(CliError);
+    expect(() => buildGeneratorOptions({ gender: 'X' }, new Config())).toThrow(CliError);
+  });
+  
+  test('should validate modules and report failures in the exit code', async () => {
+    expect(await runCli(['validate', '--modules', modulesDir])).toBe(0);
+    
+    await writeFile(join(modulesDir, 'broken.json'), JSON.stringify({
+      name: 'Broken',
+      states: {
+        Initial: { type: 'Initial', direct_transition: 'Nowhere' }
+      }
+    }));
+    
+    expect(await runCli(['validate', '--modules', modulesDir])).toBe(1);
+    
+    await rm(join(modulesDir, 'broken.json'));
+  });
+  
+  test('should exit with a usage error for unknown commands', async () => {
+    expect(await runCli(['frobnicate'])).toBe(2);
+    expect(await runCli(['generate', '--bogus'])).toBe(2);
+  });
+});
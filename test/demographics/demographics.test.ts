@@ -0,0 +1,88 @@
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { Demographics } from '../../src/demographics/index.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { Random } from '../../src/utils/random.ts';
+
+describe('Demographics', () => {
+  const testDir = '/tmp/synthea-test-demographics';
+  const YEAR = 365 * 24 * 60 * 60 * 1000;
+  
+  beforeAll(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    await writeFile(`${testDir}/demographics.csv`,
+      'STNAME,NAME,TOT_POP,TOT_MALE,TOT_FEMALE,WHITE,BLACK,ASIAN,NATIVE,PACIFIC,OTHER,HISPANIC,0..17,18..64,65..84,INCOME_LOW,INCOME_MIDDLE,INCOME_HIGH\n' +
+      'Massachusetts,Boston,9000,0.5,0.5,0.5,0.25,0.1,0.05,0.05,0.05,0.2,0.2,0.65,0.15,0.3,0.4,0.3\n' +
+      'Massachusetts,Springfield,1000,1,0,0,1,0,0,0,0,1,0,0,1,0,0,1\n' +
+      'Texas,Austin,5000,0.5,0.5,0.7,0.1,0.1,0,0,0.1,0.3,0.2,0.7,0.1,0.3,0.4,0.3\n');
+    await writeFile(`${testDir}/zipcodes.csv`,
+      'USPS,ST,NAME,ZCTA5,LAT,LON\n' +
+      'MA,Massachusetts,Springfield,01103,42.1029,-72.5907\n' +
+      'MA,Massachusetts,Boston,02114,42.3626,-71.0685\n');
+  });
+  
+  test('should select cities by state name or abbreviation', async () => {
+    const demographics = await Demographics.load(testDir);
+    
+    expect(demographics.getCities()).toHaveLength(3);
+    expect(demographics.select('Massachusetts').getCities().map(c => c.city)).toEqual(['Boston', 'Springfield']);
+    expect(demographics.select('ma', 'springfield').getCities().map(c => c.city)).toEqual(['Springfield']);
+    expect(() => demographics.select('Massachusetts', 'Austin')).toThrow('No demographics for Austin, Massachusetts');
+  });
+  
+  test('should place persons in cities by population', async () => {
+    const demographics = (await Demographics.load(testDir)).select('Massachusetts');
+    const random = new Random(7);
+    
+    const cities = Array.from({ length: 1000 }, () => demographics.sample(random).city);
+    const boston = cities.filter(city => city === 'Boston').length;
+    
+    expect(boston).toBeGreaterThan(850);
+    expect(boston).toBeLessThan(950);
+  });
+  
+  test('should draw persons from the city distributions', async () => {
+    const demographics = (await Demographics.load(testDir)).select('Massachusetts', 'Springfield');
+    
+    for (let seed = 1; seed <= 20; seed++) {
+      const person = PersonFactory.createPerson({ seed, demographics });
+      const age = (Date.now() - person.birthDate.getTime()) / YEAR;
+      
+      expect(person.location).toMatchObject({ city: 'Springfield', state: 'MA', country: 'US' });
+      expect(person.attributes.get('zip')).toBe('01103');
+      expect(Math.abs(person.location!.coordinates!.latitude - 42.1029)).toBeLessThanOrEqual(0.01);
+      expect(Math.abs(person.location!.coordinates!.longitude - -72.5907)).toBeLessThanOrEqual(0.01);
+      expect(person.gender).toBe('M');
+      expect(age).toBeGreaterThanOrEqual(65);
+      expect(age).toBeLessThan(85);
+      expect(person.race).toBe('Black or African American');
+      expect(person.ethnicity).toBe('Hispanic or Latino');
+      expect(person.attributes.get('socioeconomic_category')).toBe('High');
+    }
+  });
+  
+  test('should limit sampled ages to the requested ages', async () => {
+    const demographics = (await Demographics.load(testDir)).select('Massachusetts', 'Springfield');
+    const age = (person: { birthDate: Date }) => (Date.now() - person.birthDate.getTime()) / YEAR;
+    
+    for (let seed = 1; seed <= 20; seed++) {
+      // Within the 65..84 age group
+      const older = PersonFactory.createPerson({ seed, demographics, minAge: 80 });
+      expect(age(older)).toBeGreaterThanOrEqual(80);
+      expect(age(older)).toBeLessThan(85);
+      
+      // Outside of it
+      const younger = PersonFactory.createPerson({ seed, demographics, maxAge: 30 });
+      expect(age(younger)).toBeLessThan(31);
+    }
+  });
+  
+  test('should leave coordinates unset for cities without ZIP codes', async () => {
+    const demographics = (await Demographics.load(testDir)).select('TX');
+    const person = PersonFactory.createPerson({ seed: 1, demographics });
+    
+    expect(person.location).toEqual({ city: 'Austin', state: 'TX', country: 'US', coordinates: undefined });
+    expect(person.attributes.has('zip')).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { evaluateCondition } from '../../src/engine/condition.ts';
+import { ModuleEngine } from '../../src/engine/module-engine.ts';
+import { registerAllStates } from '../../src/engine/states/index.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { Module } from '../../src/types/index.ts';
+
+describe('Conditions', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const time = Date.UTC(2024, 5, 15);
+  
+  beforeAll(() => {
+    registerAllStates();
+  });
+  
+  function createTestPerson() {
+    const person = PersonFactory.createPerson({ seed: 42, birthDate: new Date('1980-01-01T00:00:00Z') });
+    person.race = 'Black or African American';
+    person.ethnicity = 'Hispanic or Latino';
+    person.attributes.set('socioeconomic_category', 'Middle');
+    return person;
+  }
+  
+  test('should compare dates by year, month and full date', () => {
+    const person = createTestPerson();
+    
+    expect(evaluateCondition({ condition_type: 'Date', operator: '>=', year: 2024 }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Date', operator: '==', month: 6 }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Date', operator: '<', date: { year: 2024, month: 6, day: 1 } }, person, time)).toBe(false);
+  });
+  
+  test('should match race, ethnicity and socioeconomic status', () => {
+    const person = createTestPerson();
+    
+    expect(evaluateCondition({ condition_type: 'Race', race: 'Black' }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Race', race: 'White' }, person, time)).toBe(false);
+    expect(evaluateCondition({ condition_type: 'Race', race: 'Hispanic' }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Socioeconomic Status', category: 'Middle' }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Socioeconomic Status', category: 'High' }, person, time)).toBe(false);
+  });
+  
+  test('should find active care plans and allergies', () => {
+    const person = createTestPerson();
+    const planCodes = [{ system: 'SNOMED-CT', code: '698360004', display: 'Diabetes self management plan' }];
+    const allergyCodes = [{ system: 'SNOMED-CT', code: '91935009', display: 'Allergy to peanuts' }];
+    
+    person.record.carePlans.push({ id: 'plan', type: 'CarePlan', startTime: time - DAY, codes: { coding: planCodes } });
+    person.record.allergies.push({
+      id: 'allergy',
+      type: 'Allergy',
+      startTime: time - 10 * DAY,
+      endTime: time - DAY,
+      allergyType: 'allergy',
+      codes: { coding: allergyCodes }
+    });
+    person.attributes.set('diabetes_plan', person.record.carePlans[0]);
+    
+    expect(evaluateCondition({ condition_type: 'Active Care Plan', codes: planCodes }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Active Care Plan', referenced_by_attribute: 'diabetes_plan' }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'Active Allergy', codes: allergyCodes }, person, time)).toBe(false);
+    expect(evaluateCondition({ condition_type: 'Active Allergy', codes: allergyCodes }, person, time - 5 * DAY)).toBe(true);
+  });
+  
+  test('should count sub-conditions for At Least and At Most', () => {
+    const person = createTestPerson();
+    const conditions = [
+      { condition_type: 'True' },
+      { condition_type: 'Race', race: 'Black' },
+      { condition_type: 'False' }
+    ];
+    
+    expect(evaluateCondition({ condition_type: 'At Least', minimum: 2, conditions }, person, time)).toBe(true);
+    expect(evaluateCondition({ condition_type: 'At Least', minimum: 3, conditions }, person, time)).toBe(false);
+    expect(evaluateCondition({ condition_type: 'At Most', maximum: 1, conditions }, person, time)).toBe(false);
+  });
+  
+  test('should check prior states with since and within', async () => {
+    const module: Module = {
+      name: 'Prior State Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Screening'
+        },
+        'Screening': {
+          type: 'Simple',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: { quantity: 30, unit: 'days' },
+          direct_transition: 'Follow_Up'
+        },
+        'Follow_Up': {
+          type: 'Guard',
+          allow: { condition_type: 'False' },
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    
+    await engine.process(person, time);
+    await engine.process(person, time + 30 * DAY);
+    
+    const now = time + 30 * DAY;
+    const prior = (extra: object) =>
+      evaluateCondition({ condition_type: 'PriorState', name: 'Screening', ...extra }, person, now, module);
+    
+    expect(prior({})).toBe(true);
+    expect(prior({ within: { quantity: 60, unit: 'days' } })).toBe(true);
+    expect(prior({ within: { quantity: 7, unit: 'days' } })).toBe(false);
+    expect(prior({ since: 'Wait' })).toBe(false);
+    expect(evaluateCondition({ condition_type: 'PriorState', name: 'Follow_Up' }, person, now, module)).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  administerScheduledImmunizations,
+  isImmunizationDue,
+  IMMUNIZATION_SCHEDULE
+} from '../../src/engine/immunizations.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { convertToMs } from '../../src/utils/time.ts';
+
+describe('Immunization schedule', () => {
+  const birthDate = new Date('2020-01-01T00:00:00Z');
+  const atMonths = (months: number) => birthDate.getTime() + convertToMs(months, 'months');
+  
+  test('should give the newborn dose of hepatitis B at birth', () => {
+    const person = PersonFactory.createPerson({ seed: 1, birthDate });
+    
+    const given = administerScheduledImmunizations(person, atMonths(0));
+    
+    expect(given.map(i => i.series)).toEqual(['hepb_child']);
+    expect(given[0]!.doseNumber).toBe(1);
+    expect(given[0]!.doseQuantity).toEqual({ value: 0.5, unit: 'mL' });
+    expect(given[0]!.codes.coding[0]!.code).toBe('08');
+  });
+  
+  test('should number doses within a series across checkups', () => {
+    const person = PersonFactory.createPerson({ seed: 1, birthDate });
+    
+    for (const months of [0, 1, 2, 4, 6]) {
+      administerScheduledImmunizations(person, atMonths(months));
+    }
+    
+    const dtap = person.record.immunizations.filter(i => i.series === 'dtap');
+    expect(dtap.map(i => i.doseNumber)).toEqual([1, 2, 3]);
+    
+    const hepb = person.record.immunizations.filter(i => i.series === 'hepb_child');
+    expect(hepb.map(i => i.doseNumber)).toEqual([1, 2, 3]);
+    
+    // First flu shot is due at 6 months
+    expect(person.record.immunizations.some(i => i.series === 'flu')).toBe(true);
+  });
+  
+  test('should repeat recurring vaccines and skip series past their window', () => {
+    const person = PersonFactory.createPerson({ seed: 1, birthDate });
+    
+    administerScheduledImmunizations(person, atMonths(6));
+    expect(isImmunizationDue(person, 'flu', IMMUNIZATION_SCHEDULE.flu!, atMonths(12))).toBe(false);
+    expect(isImmunizationDue(person, 'flu', IMMUNIZATION_SCHEDULE.flu!, atMonths(18))).toBe(true);
+    
+    // Rotavirus is not given after 8 months
+    expect(isImmunizationDue(person, 'rv_mono', IMMUNIZATION_SCHEDULE.rv_mono!, atMonths(24))).toBe(false);
+  });
+});
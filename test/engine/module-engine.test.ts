@@ -1,7 +1,10 @@
 import { describe, test, expect, beforeAll } from 'bun:test';
-import { ModuleEngine } from '../../src/engine/module-engine.ts';
+import { ModuleEngine, getModuleContext } from '../../src/engine/module-engine.ts';
 import { Module, Person, HealthRecord } from '../../src/types/index.ts';
+import { ModuleLoader } from '../../src/engine/module-loader.ts';
 import { registerAllStates } from '../../src/engine/states/index.ts';
+import { Random } from '../../src/utils/random.ts';
+import { mkdir, rm } from 'node:fs/promises';
 
 // Register all state types before tests
 beforeAll(() => {
@@ -25,7 +28,9 @@ describe('ModuleEngine', () => {
         carePlans: [],
         allergies: [],
         devices: [],
-        imagingStudies: []
+        supplies: [],
+        imagingStudies: [],
+        reports: []
       },
       birthDate: new Date('1980-01-01'),
       gender: 'M',
@@ -60,6 +65,12 @@ describe('ModuleEngine', () => {
     await engine.process(person, Date.now());
     
     expect(person.attributes.get('test_value')).toBe(42);
+    
+    // The Terminal state is recorded once and the module stays finished
+    await engine.process(person, Date.now());
+    expect(getModuleContext(person, module)!.history).toEqual(['Initial', 'Set_Value', 'Terminal']);
+    expect(getModuleContext(person, module)!.visits.map(v => v.name)).toEqual(['Initial', 'Set_Value', 'Terminal']);
+    expect(engine.isFinished(person)).toBe(true);
   });
   
   test('should handle conditional transitions', async () => {
@@ -241,4 +252,1080 @@ describe('ModuleEngine', () => {
     await engine.process(person, startTime + 101000);
     expect(person.attributes.get('waited')).toBe(true);
   });
-});
\ No newline at end of file
+  
+  test('should record death and stop processing', async () => {
+    const module: Module = {
+      name: 'Death Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Cancer'
+        },
+        'Cancer': {
+          type: 'ConditionOnset',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '363406005',
+            display: 'Malignant neoplasm of colon'
+          }],
+          direct_transition: 'Die'
+        },
+        'Die': {
+          type: 'Death',
+          exact: {
+            quantity: 1,
+            unit: 'days'
+          },
+          condition_onset: 'Cancer',
+          direct_transition: 'After_Death'
+        },
+        'After_Death': {
+          type: 'SetAttribute',
+          attribute: 'after_death',
+          value: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    // Death is scheduled but has not happened yet
+    await engine.process(person, startTime);
+    expect(person.attributes.get('alive')).toBe(true);
+    expect(person.deathDate).toBeUndefined();
+    
+    await engine.process(person, startTime + 2 * 24 * 60 * 60 * 1000);
+    expect(person.attributes.get('alive')).toBe(false);
+    expect(person.deathDate?.getTime()).toBe(startTime + 24 * 60 * 60 * 1000);
+    expect(person.attributes.get('after_death')).toBeUndefined();
+    expect(getModuleContext(person, module)!.history).toEqual(['Initial', 'Cancer', 'Die']);
+    
+    // Death certification encounter and cause of death observation
+    expect(person.record.encounters[0]?.codes.coding[0]?.code).toBe('308646001');
+    const causeOfDeath = person.record.observations[0];
+    expect(causeOfDeath?.codes.coding[0]?.code).toBe('69453-9');
+    expect(causeOfDeath?.value.coding[0].code).toBe('363406005');
+    expect(causeOfDeath?.encounter).toBe(person.record.encounters[0]!.id);
+  });
+  
+  test('should order and end medications', async () => {
+    const module: Module = {
+      name: 'Medication Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Hypertension'
+        },
+        'Hypertension': {
+          type: 'ConditionOnset',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '38341003',
+            display: 'Hypertension'
+          }],
+          direct_transition: 'Prescribe'
+        },
+        'Prescribe': {
+          type: 'MedicationOrder',
+          codes: [{
+            system: 'RxNorm',
+            code: '314076',
+            display: 'lisinopril 10 MG Oral Tablet'
+          }],
+          reason: 'Hypertension',
+          chronic: true,
+          prescription: {
+            dosage: {
+              amount: 1,
+              frequency: 1,
+              period: 1,
+              unit: 'days'
+            }
+          },
+          assign_to_attribute: 'hypertension_medication',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: {
+            quantity: 1,
+            unit: 'days'
+          },
+          direct_transition: 'Stop'
+        },
+        'Stop': {
+          type: 'MedicationEnd',
+          medication_order: 'Prescribe',
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    await engine.process(person, startTime);
+    
+    const medication = person.record.medications[0]!;
+    expect(person.record.medications.length).toBe(1);
+    expect(medication.chronic).toBe(true);
+    expect(medication.reason?.coding[0]?.code).toBe('38341003');
+    expect(medication.dosage?.amount).toBe(1);
+    expect(medication.endTime).toBeUndefined();
+    expect(person.attributes.get('hypertension_medication')).toBe(medication);
+    
+    const endTime = startTime + 2 * 24 * 60 * 60 * 1000;
+    await engine.process(person, endTime);
+    
+    expect(medication.endTime).toBe(endTime);
+    expect(medication.stopReason).toBeDefined();
+  });
+  
+  test('should end conditions', async () => {
+    const module: Module = {
+      name: 'Condition End Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Sinusitis'
+        },
+        'Sinusitis': {
+          type: 'ConditionOnset',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '444814009',
+            display: 'Viral sinusitis'
+          }],
+          assign_to_attribute: 'sinusitis',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: {
+            quantity: 10,
+            unit: 'days'
+          },
+          direct_transition: 'Recover'
+        },
+        'Recover': {
+          type: 'ConditionEnd',
+          referenced_by_attribute: 'sinusitis',
+          conditional_transition: [
+            {
+              condition: {
+                condition_type: 'Active Condition',
+                referenced_by_attribute: 'sinusitis'
+              },
+              transition: 'Still_Sick'
+            },
+            {
+              transition: 'Terminal'
+            }
+          ]
+        },
+        'Still_Sick': {
+          type: 'SetAttribute',
+          attribute: 'still_sick',
+          value: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    await engine.process(person, startTime);
+    const endTime = startTime + 11 * 24 * 60 * 60 * 1000;
+    await engine.process(person, endTime);
+    
+    const condition = person.record.conditions[0]!;
+    expect(condition.clinicalStatus).toBe('resolved');
+    expect(condition.endTime).toBe(endTime);
+    expect(person.attributes.get('still_sick')).toBeUndefined();
+  });
+  
+  test('should perform procedures within the current encounter', async () => {
+    const module: Module = {
+      name: 'Procedure Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Appendicitis'
+        },
+        'Appendicitis': {
+          type: 'ConditionOnset',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '74400008',
+            display: 'Appendicitis'
+          }],
+          direct_transition: 'Emergency'
+        },
+        'Emergency': {
+          type: 'Encounter',
+          encounter_class: 'emergency',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '50849002',
+            display: 'Emergency room admission'
+          }],
+          direct_transition: 'Appendectomy'
+        },
+        'Appendectomy': {
+          type: 'Procedure',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '80146002',
+            display: 'Appendectomy'
+          }],
+          reason: 'Appendicitis',
+          duration: {
+            low: 30,
+            high: 90,
+            unit: 'minutes'
+          },
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const time = Date.now();
+    
+    await engine.process(person, time);
+    
+    const procedure = person.record.procedures[0]!;
+    expect(procedure.encounter).toBe(person.record.encounters[0]!.id);
+    expect(procedure.reason?.coding[0]?.code).toBe('74400008');
+    expect(procedure.duration?.unit).toBe('minutes');
+    expect(procedure.duration!.quantity).toBeGreaterThanOrEqual(30);
+    expect(procedure.duration!.quantity).toBeLessThanOrEqual(90);
+    expect(procedure.endTime! - procedure.startTime).toBeCloseTo(procedure.duration!.quantity * 60 * 1000);
+  });
+  
+  test('should record observations, panels and diagnostic reports', async () => {
+    const module: Module = {
+      name: 'Observation Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Glucose'
+        },
+        'Glucose': {
+          type: 'Observation',
+          category: 'laboratory',
+          unit: 'mg/dL',
+          codes: [{
+            system: 'LOINC',
+            code: '2339-0',
+            display: 'Glucose'
+          }],
+          range: {
+            low: 110,
+            high: 125
+          },
+          direct_transition: 'CBC'
+        },
+        'CBC': {
+          type: 'MultiObservation',
+          category: 'laboratory',
+          codes: [{
+            system: 'LOINC',
+            code: '58410-2',
+            display: 'CBC panel'
+          }],
+          observations: [
+            {
+              codes: [{ system: 'LOINC', code: '6690-2', display: 'WBC' }],
+              unit: '10*3/uL',
+              range: { low: 4.5, high: 11.0 }
+            },
+            {
+              codes: [{ system: 'LOINC', code: '789-8', display: 'RBC' }],
+              unit: '10*6/uL',
+              range: { low: 4.5, high: 5.9 }
+            }
+          ],
+          direct_transition: 'Lipid_Panel'
+        },
+        'Lipid_Panel': {
+          type: 'DiagnosticReport',
+          codes: [{
+            system: 'LOINC',
+            code: '57698-3',
+            display: 'Lipid panel'
+          }],
+          observations: [
+            {
+              codes: [{ system: 'LOINC', code: '2093-3', display: 'Total cholesterol' }],
+              unit: 'mg/dL',
+              exact: { quantity: 180 }
+            }
+          ],
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    
+    await engine.process(person, Date.now());
+    
+    const [glucose, cbc, cholesterol] = person.record.observations;
+    expect(glucose!.value).toBeGreaterThanOrEqual(110);
+    expect(glucose!.value).toBeLessThanOrEqual(125);
+    expect(glucose!.category).toBe('laboratory');
+    
+    expect(cbc!.observations?.length).toBe(2);
+    expect(cbc!.observations![0]!.value).toBeGreaterThanOrEqual(4.5);
+    expect(cbc!.observations![0]!.value).toBeLessThanOrEqual(11.0);
+    
+    expect(cholesterol!.value).toBe(180);
+    expect(person.record.reports.length).toBe(1);
+    expect(person.record.reports[0]!.observations).toEqual([cholesterol!.id]);
+  });
+  
+  test('should draw successive values from the person\'s random stream', async () => {
+    const person = createTestPerson();
+    expect(Random.fromPerson(person).random()).not.toBe(Random.fromPerson(person).random());
+    
+    const observation = (code: string, next: string) => ({
+      type: 'Observation',
+      category: 'laboratory',
+      unit: '%',
+      codes: [{ system: 'LOINC', code, display: code }],
+      range: { low: 0, high: 100 },
+      direct_transition: next
+    });
+    const module: Module = {
+      name: 'Random Stream Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'First'
+        },
+        'First': observation('1-1', 'Second'),
+        'Second': observation('2-2', 'Terminal'),
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    await new ModuleEngine(module).process(person, Date.now());
+    
+    const [first, second] = person.record.observations;
+    expect(first!.value).not.toBe(second!.value);
+  });
+  
+  test('should call submodules by path', async () => {
+    const modulesDir = '/tmp/synthea-test-submodules';
+    await rm(modulesDir, { recursive: true, force: true });
+    await mkdir(`${modulesDir}/medications`, { recursive: true });
+    
+    await Bun.write(`${modulesDir}/caller.json`, JSON.stringify({
+      name: 'Caller',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Call'
+        },
+        'Call': {
+          type: 'CallSubmodule',
+          module: 'medications/painkiller',
+          direct_transition: 'After_Call'
+        },
+        'After_Call': {
+          type: 'SetAttribute',
+          attribute: 'returned',
+          value: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    }));
+    
+    await Bun.write(`${modulesDir}/medications/painkiller.json`, JSON.stringify({
+      name: 'Painkiller',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: {
+            quantity: 1,
+            unit: 'days'
+          },
+          direct_transition: 'Take'
+        },
+        'Take': {
+          type: 'SetAttribute',
+          attribute: 'took_painkiller',
+          value: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    }));
+    
+    const loader = new ModuleLoader();
+    const modules = await loader.loadAllModules(modulesDir);
+    
+    expect(modules.get('caller')?.submodule).toBe(false);
+    expect(modules.get('medications/painkiller')?.submodule).toBe(true);
+    expect(modules.get('medications/painkiller')?.module.name).toBe('Painkiller');
+    
+    const engine = modules.get('caller')!.engine;
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    // The caller waits while the submodule is delayed
+    await engine.process(person, startTime);
+    expect(person.attributes.get('returned')).toBeUndefined();
+    
+    await engine.process(person, startTime + 2 * 24 * 60 * 60 * 1000);
+    expect(person.attributes.get('took_painkiller')).toBe(true);
+    expect(person.attributes.get('returned')).toBe(true);
+  });
+  
+  test('should keep a context per submodule call', async () => {
+    const modulesDir = '/tmp/synthea-test-submodule-calls';
+    await rm(modulesDir, { recursive: true, force: true });
+    await mkdir(`${modulesDir}/meds`, { recursive: true });
+    
+    const caller = (name: string) => ({
+      name,
+      states: {
+        'Initial': { type: 'Initial', direct_transition: 'Call' },
+        'Call': { type: 'CallSubmodule', module: 'meds/sub', direct_transition: 'Terminal' },
+        'Terminal': { type: 'Terminal' }
+      }
+    });
+    for (const name of ['a', 'b', 'c']) {
+      await Bun.write(`${modulesDir}/${name}.json`, JSON.stringify(caller(name)));
+    }
+    
+    // A top-level module with the submodule's name
+    await Bun.write(`${modulesDir}/sub.json`, JSON.stringify({
+      name: 'Sub',
+      states: {
+        'Initial': { type: 'Initial', direct_transition: 'Terminal' },
+        'Terminal': { type: 'Terminal' }
+      }
+    }));
+    await Bun.write(`${modulesDir}/meds/sub.json`, JSON.stringify({
+      name: 'Sub',
+      states: {
+        'Initial': { type: 'Initial', direct_transition: 'Wait' },
+        'Wait': { type: 'Delay', exact: { quantity: 1, unit: 'days' }, direct_transition: 'Count' },
+        'Count': { type: 'Counter', attribute: 'calls', action: 'increment', direct_transition: 'Terminal' },
+        'Terminal': { type: 'Terminal' }
+      }
+    }));
+    
+    const loader = new ModuleLoader();
+    const modules = await loader.loadAllModules(modulesDir);
+    
+    expect(modules.get('sub')?.submodule).toBe(false);
+    expect(modules.get('meds/sub')?.submodule).toBe(true);
+    
+    const engines = ['a', 'b', 'c'].map(key => modules.get(key)!.engine.clone());
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    for (const time of [startTime, startTime + 2 * 24 * 60 * 60 * 1000]) {
+      for (const engine of engines) {
+        await engine.process(person, time);
+      }
+    }
+    
+    expect(person.attributes.get('calls')).toBe(3);
+    expect(engines.every(engine => engine.isFinished(person))).toBe(true);
+  });
+  
+  test('should track counters, symptoms and vital signs', async () => {
+    const module: Module = {
+      name: 'Triage Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Count_Visit'
+        },
+        'Count_Visit': {
+          type: 'Counter',
+          attribute: 'visits',
+          action: 'increment',
+          direct_transition: 'Chest_Pain'
+        },
+        'Chest_Pain': {
+          type: 'Symptom',
+          symptom: 'Chest Pain',
+          cause: 'heart_attack',
+          range: {
+            low: 60,
+            high: 100
+          },
+          direct_transition: 'Blood_Pressure'
+        },
+        'Blood_Pressure': {
+          type: 'VitalSign',
+          vital_sign: 'Systolic Blood Pressure',
+          unit: 'mm[Hg]',
+          exact: {
+            quantity: 150
+          },
+          conditional_transition: [
+            {
+              condition: {
+                condition_type: 'And',
+                conditions: [
+                  {
+                    condition_type: 'Symptom',
+                    symptom: 'Chest Pain',
+                    operator: '>',
+                    value: 50
+                  },
+                  {
+                    condition_type: 'Vital Sign',
+                    vital_sign: 'Systolic Blood Pressure',
+                    operator: '>=',
+                    value: 140
+                  }
+                ]
+              },
+              transition: 'Emergency'
+            },
+            {
+              transition: 'Terminal'
+            }
+          ]
+        },
+        'Emergency': {
+          type: 'SetAttribute',
+          attribute: 'triage',
+          value: 'emergency',
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    person.attributes.set('visits', 2);
+    
+    await engine.process(person, Date.now());
+    
+    expect(person.attributes.get('visits')).toBe(3);
+    expect(person.attributes.get('symptoms')['Chest Pain']).toBeGreaterThanOrEqual(60);
+    expect(person.attributes.get('vital_signs')['Systolic Blood Pressure']).toBe(150);
+    expect(person.attributes.get('triage')).toBe('emergency');
+  });
+  
+  test('should start and end care plans', async () => {
+    const module: Module = {
+      name: 'Care Plan Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Diabetes'
+        },
+        'Diabetes': {
+          type: 'ConditionOnset',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '44054006',
+            display: 'Diabetes mellitus type 2'
+          }],
+          direct_transition: 'Diabetes_Plan'
+        },
+        'Diabetes_Plan': {
+          type: 'CarePlanStart',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '698360004',
+            display: 'Diabetes self management plan'
+          }],
+          activities: [{
+            system: 'SNOMED-CT',
+            code: '160670007',
+            display: 'Diabetic diet'
+          }],
+          goals: [{
+            text: 'Glucose [Mass/volume] in Blood < 108',
+            addresses: ['Diabetes']
+          }],
+          reason: 'Diabetes',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: {
+            quantity: 1,
+            unit: 'years'
+          },
+          direct_transition: 'End_Plan'
+        },
+        'End_Plan': {
+          type: 'CarePlanEnd',
+          careplan: 'Diabetes_Plan',
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const startTime = Date.now();
+    
+    await engine.process(person, startTime);
+    
+    const carePlan = person.record.carePlans[0]!;
+    expect(carePlan.activities?.[0]?.coding[0]?.code).toBe('160670007');
+    expect(carePlan.reason?.coding[0]?.code).toBe('44054006');
+    expect(carePlan.goals?.[0]?.addresses?.[0]?.coding[0]?.code).toBe('44054006');
+    expect(carePlan.endTime).toBeUndefined();
+    
+    const endTime = startTime + 400 * 24 * 60 * 60 * 1000;
+    await engine.process(person, endTime);
+    expect(carePlan.endTime).toBe(endTime);
+  });
+  
+  test('should record allergies with reactions', async () => {
+    const module: Module = {
+      name: 'Allergy Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Peanut_Allergy'
+        },
+        'Peanut_Allergy': {
+          type: 'AllergyOnset',
+          allergy_type: 'allergy',
+          category: 'food',
+          criticality: 'high',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '91935009',
+            display: 'Allergy to peanuts'
+          }],
+          reactions: [
+            {
+              reaction: {
+                system: 'SNOMED-CT',
+                code: '39579001',
+                display: 'Anaphylaxis'
+              },
+              possible_severities: [
+                { level: 'severe', value: 1.0 }
+              ]
+            },
+            {
+              reaction: {
+                system: 'SNOMED-CT',
+                code: '247472004',
+                display: 'Wheal'
+              },
+              possible_severities: [
+                { level: 'none', value: 1.0 }
+              ]
+            }
+          ],
+          assign_to_attribute: 'peanut_allergy',
+          direct_transition: 'Outgrow'
+        },
+        'Outgrow': {
+          type: 'AllergyEnd',
+          referenced_by_attribute: 'peanut_allergy',
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const time = Date.now();
+    
+    await engine.process(person, time);
+    
+    const allergy = person.record.allergies[0]!;
+    expect(allergy.allergyType).toBe('allergy');
+    expect(allergy.category).toBe('food');
+    expect(allergy.criticality).toBe('high');
+    expect(allergy.reactions).toEqual([{
+      manifestation: {
+        coding: [{ system: 'SNOMED-CT', code: '39579001', display: 'Anaphylaxis' }],
+        text: 'Anaphylaxis'
+      },
+      severity: 'severe'
+    }]);
+    expect(allergy.endTime).toBe(time);
+  });
+  
+  test('should record devices, supplies and imaging studies', async () => {
+    const module: Module = {
+      name: 'Test Devices Module',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Pacemaker'
+        },
+        'Pacemaker': {
+          type: 'Device',
+          code: {
+            system: 'SNOMED-CT',
+            code: '706004007',
+            display: 'Implantable cardiac pacemaker'
+          },
+          manufacturer: 'Acme Devices',
+          model: 'PM-100',
+          direct_transition: 'Glucose_Monitor'
+        },
+        'Glucose_Monitor': {
+          type: 'Device',
+          code: {
+            system: 'SNOMED-CT',
+            code: '337414009',
+            display: 'Blood glucose meters'
+          },
+          direct_transition: 'Supplies'
+        },
+        'Supplies': {
+          type: 'SupplyList',
+          supplies: [{
+            quantity: 100,
+            code: {
+              system: 'SNOMED-CT',
+              code: '337388004',
+              display: 'Blood glucose testing strips'
+            }
+          }],
+          direct_transition: 'Chest_XRay'
+        },
+        'Chest_XRay': {
+          type: 'ImagingStudy',
+          procedure_code: {
+            system: 'SNOMED-CT',
+            code: '399208008',
+            display: 'Plain chest X-ray'
+          },
+          series: [{
+            body_site: {
+              system: 'SNOMED-CT',
+              code: '51185008',
+              display: 'Thoracic structure'
+            },
+            modality: {
+              system: 'DICOM-DCM',
+              code: 'CR',
+              display: 'Computed Radiography'
+            },
+            instances: [
+              { title: 'PA view', sop_class: { system: 'DICOM-SOP', code: '1.2.840.10008.5.1.4.1.1.1.1' } },
+              { title: 'Lateral view', sop_class: { system: 'DICOM-SOP', code: '1.2.840.10008.5.1.4.1.1.1.1' } }
+            ]
+          }],
+          direct_transition: 'Explant'
+        },
+        'Explant': {
+          type: 'DeviceEnd',
+          device: 'Pacemaker',
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const time = Date.now();
+    
+    await engine.process(person, time);
+    
+    const device = person.record.devices[0]!;
+    expect(device.manufacturer).toBe('Acme Devices');
+    expect(device.codes.coding[0]!.code).toBe('706004007');
+    expect(device.udi).toMatch(/^\(01\)\d{14}\(11\)\d{6}\(17\)\d{6}\(10\)\d+\(21\)\d+$/);
+    expect(device.udi).toStartWith(`(01)${device.deviceIdentifier}`);
+    expect(device.endTime).toBe(time);
+    
+    // Each device has its own identifier and serial number
+    const monitor = person.record.devices[1]!;
+    expect(monitor.deviceIdentifier).not.toBe(device.deviceIdentifier);
+    expect(monitor.serialNumber).not.toBe(device.serialNumber);
+    expect(monitor.udi).not.toBe(device.udi);
+    
+    expect(person.record.supplies[0]!.quantity).toBe(100);
+    
+    const study = person.record.imagingStudies[0]!;
+    expect(study.uid).toMatch(/^1\.2\.840\.99999999\.\d+\.\d+$/);
+    expect(study.modality.coding[0]!.code).toBe('CR');
+    expect(study.series![0]!.uid).toBe(`${study.uid}.1`);
+    expect(study.series![0]!.instances!.map(i => i.uid)).toEqual([`${study.uid}.1.1`, `${study.uid}.1.2`]);
+    expect(person.record.procedures[0]!.codes.coding[0]!.code).toBe('399208008');
+  });
+  
+  test('should record immunizations and vaccinate at wellness encounters', async () => {
+    const module: Module = {
+      name: 'Test Immunization Module',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Checkup'
+        },
+        'Checkup': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          wellness: true,
+          direct_transition: 'Travel_Vaccine'
+        },
+        'Travel_Vaccine': {
+          type: 'Immunization',
+          codes: [{
+            system: 'CVX',
+            code: '25',
+            display: 'typhoid, oral'
+          }],
+          series: 'typhoid',
+          dose_quantity: { value: 1, unit: 'capsule' },
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    person.birthDate = new Date('2000-01-01T00:00:00Z');
+    const time = Date.UTC(2030, 0, 1);
+    
+    await engine.process(person, time);
+    
+    const encounter = person.record.encounters[0]!;
+    const typhoid = person.record.immunizations.find(i => i.series === 'typhoid')!;
+    expect(typhoid.doseNumber).toBe(1);
+    expect(typhoid.doseQuantity).toEqual({ value: 1, unit: 'capsule' });
+    expect(typhoid.encounter).toBe(encounter.id);
+    
+    // A 30 year old gets the scheduled flu and Td doses at the checkup
+    const scheduled = person.record.immunizations.filter(i => i.series !== 'typhoid');
+    expect(scheduled.map(i => i.series).sort()).toEqual(['flu', 'td']);
+    expect(scheduled.every(i => i.encounter === encounter.id)).toBe(true);
+  });
+  
+  test('should end encounters on EncounterEnd and when the module yields', async () => {
+    const HOUR = 60 * 60 * 1000;
+    const module: Module = {
+      name: 'Test Encounter Lifecycle Module',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Office_Visit'
+        },
+        'Office_Visit': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: { quantity: 1, unit: 'hours' },
+          direct_transition: 'Admission'
+        },
+        'Admission': {
+          type: 'Encounter',
+          encounter_class: 'inpatient',
+          direct_transition: 'Stay'
+        },
+        'Stay': {
+          type: 'Delay',
+          exact: { quantity: 3, unit: 'hours' },
+          direct_transition: 'Discharge'
+        },
+        'Discharge': {
+          type: 'EncounterEnd',
+          discharge_disposition: {
+            system: 'NUBC',
+            code: '01',
+            display: 'Discharged to home'
+          },
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const time = Date.now();
+    
+    // The office visit ends as soon as the module waits
+    await engine.process(person, time);
+    const [visit] = person.record.encounters;
+    expect(visit!.endTime).toBe(time);
+    expect(person.attributes.has('current_encounter')).toBe(false);
+    
+    // The inpatient stay stays open across timesteps
+    await engine.process(person, time + HOUR);
+    const admission = person.record.encounters[1]!;
+    expect(admission.endTime).toBeUndefined();
+    expect(person.attributes.get('current_encounter')).toBe(admission);
+    
+    await engine.process(person, time + 4 * HOUR);
+    expect(admission.endTime).toBe(time + 4 * HOUR);
+    expect(admission.discharge?.coding[0]!.code).toBe('01');
+    expect(person.attributes.has('current_encounter')).toBe(false);
+  });
+  
+  test('should wait for the next scheduled checkup at wellness encounters', async () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const module: Module = {
+      name: 'Test Wellness Module',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Checkup'
+        },
+        'Checkup': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          wellness: true,
+          direct_transition: 'Next_Checkup'
+        },
+        'Next_Checkup': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          wellness: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    // 25 years old: checkups are every 3 years (20, 23, 26, ...)
+    person.birthDate = new Date('2000-01-01T00:00:00Z');
+    const time = Date.UTC(2025, 0, 1);
+    
+    await engine.process(person, time);
+    expect(person.record.encounters).toHaveLength(1);
+    expect(person.record.encounters[0]!.encounterClass).toBe('wellness');
+    expect(person.record.encounters[0]!.codes.coding[0]!.code).toBe('162673000');
+    
+    // Not due again until age 26
+    await engine.process(person, Date.UTC(2025, 6, 1));
+    expect(person.record.encounters).toHaveLength(1);
+    
+    await engine.process(person, Date.UTC(2026, 0, 1) + DAY);
+    expect(person.record.encounters).toHaveLength(2);
+    expect(engine.isFinished(person)).toBe(true);
+  });
+  
+  test('should diagnose conditions at their target encounter', async () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const module: Module = {
+      name: 'Test Target Encounter Module',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Onset'
+        },
+        'Onset': {
+          type: 'ConditionOnset',
+          target_encounter: 'Diagnosis_Visit',
+          assign_to_attribute: 'hypertension',
+          codes: [{
+            system: 'SNOMED-CT',
+            code: '38341003',
+            display: 'Hypertension'
+          }],
+          direct_transition: 'Wait'
+        },
+        'Wait': {
+          type: 'Delay',
+          exact: { quantity: 10, unit: 'days' },
+          direct_transition: 'Diagnosis_Visit'
+        },
+        'Diagnosis_Visit': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          direct_transition: 'Prescribe'
+        },
+        'Prescribe': {
+          type: 'MedicationOrder',
+          codes: [{
+            system: 'RxNorm',
+            code: '316049',
+            display: 'Hydrochlorothiazide 25 MG'
+          }],
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const engine = new ModuleEngine(module);
+    const person = createTestPerson();
+    const time = Date.now();
+    
+    // Not in the record until the person is seen
+    await engine.process(person, time);
+    expect(person.record.conditions).toHaveLength(0);
+    
+    await engine.process(person, time + 10 * DAY);
+    const encounter = person.record.encounters[0]!;
+    const condition = person.record.conditions[0]!;
+    expect(condition.startTime).toBe(time);
+    expect(condition.encounter).toBe(encounter.id);
+    expect(person.attributes.get('hypertension')).toBe(condition);
+    expect(person.record.medications[0]!.encounter).toBe(encounter.id);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CSVExporter, CSV_HEADERS } from '../../src/export/csv/index.ts';
+import { escapeCSV } from '../../src/utils/csv.ts';
+import { Person } from '../../src/types/index.ts';
+
+describe('CSVExporter', () => {
+  let testDir: string;
+  
+  function createTestPerson(id: string): Person {
+    return {
+      id,
+      seed: 12345,
+      attributes: new Map<string, any>([
+        ['first_name', 'John'],
+        ['last_name', 'Doe']
+      ]),
+      record: {
+        encounters: [{
+          id: `${id}-enc`,
+          type: 'Encounter',
+          startTime: Date.UTC(2020, 0, 1, 9),
+          endTime: Date.UTC(2020, 0, 1, 10),
+          encounterClass: 'wellness',
+          codes: { coding: [{ system: 'SNOMED-CT', code: '162673000', display: 'General examination of patient (procedure)' }] }
+        }],
+        conditions: [{
+          id: `${id}-cond`,
+          type: 'Condition',
+          startTime: Date.UTC(2020, 0, 1, 9, 30),
+          clinicalStatus: 'active',
+          encounter: `${id}-enc`,
+          codes: { coding: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }] }
+        }],
+        medications: [],
+        observations: [{
+          id: `${id}-bp`,
+          type: 'Observation',
+          startTime: Date.UTC(2020, 0, 1, 9, 15),
+          category: 'vital-signs',
+          encounter: `${id}-enc`,
+          codes: { coding: [{ system: 'LOINC', code: '85354-9', display: 'Blood pressure panel' }] },
+          observations: [{
+            id: `${id}-sys`,
+            type: 'Observation',
+            startTime: Date.UTC(2020, 0, 1, 9, 15),
+            codes: { coding: [{ system: 'LOINC', code: '8480-6', display: 'Systolic Blood Pressure' }] },
+            value: 120,
+            unit: 'mm[Hg]'
+          }, {
+            id: `${id}-dia`,
+            type: 'Observation',
+            startTime: Date.UTC(2020, 0, 1, 9, 15),
+            codes: { coding: [{ system: 'LOINC', code: '8462-4', display: 'Diastolic Blood Pressure' }] },
+            value: 80,
+            unit: 'mm[Hg]'
+          }]
+        }, {
+          id: `${id}-smoking`,
+          type: 'Observation',
+          startTime: Date.UTC(2020, 0, 1, 9, 20),
+          category: 'survey',
+          codes: { coding: [{ system: 'LOINC', code: '72166-2', display: 'Tobacco smoking status' }] },
+          value: { coding: [{ system: 'SNOMED-CT', code: '266919005', display: 'Never smoked tobacco' }] }
+        }],
+        procedures: [],
+        immunizations: [],
+        carePlans: [],
+        allergies: [{
+          id: `${id}-allergy`,
+          type: 'Allergy',
+          startTime: Date.UTC(2020, 0, 1, 9, 40),
+          allergyType: 'allergy',
+          category: 'food',
+          codes: { coding: [{ system: 'SNOMED-CT', code: '91935009', display: 'Allergy to peanuts' }] },
+          reactions: [{
+            manifestation: { coding: [{ system: 'SNOMED-CT', code: '247472004', display: 'Hives' }] },
+            severity: 'mild'
+          }]
+        }],
+        devices: [],
+        supplies: [],
+        imagingStudies: [],
+        reports: []
+      },
+      birthDate: new Date('1980-01-01'),
+      gender: 'M',
+      race: 'white',
+      ethnicity: 'nonhispanic',
+      location: {
+        city: 'Boston',
+        state: 'MA',
+        country: 'US'
+      }
+    };
+  }
+  
+  async function readTable(table: string): Promise<string[]> {
+    const content = await readFile(join(testDir, `${table}.csv`), 'utf-8');
+    return content.trimEnd().split('\n');
+  }
+  
+  beforeEach(() => {
+    testDir = join(tmpdir(), `synthea-csv-test-${Date.now()}`);
+  });
+  
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+  
+  test('should write every table with Synthea headers', async () => {
+    await new CSVExporter(testDir).exportPersons([createTestPerson('p1')]);
+    
+    for (const [table, header] of Object.entries(CSV_HEADERS)) {
+      const lines = await readTable(table);
+      expect(lines[0]).toBe(header.join(','));
+    }
+    
+    const patients = await readTable('patients');
+    expect(patients).toHaveLength(2);
+    expect(patients[1]).toStartWith('p1,1980-01-01,,');
+    expect(patients[1]).toContain(',John,,Doe,');
+    
+    const encounters = await readTable('encounters');
+    expect(encounters[1]).toBe(
+      'p1-enc,2020-01-01T09:00:00Z,2020-01-01T10:00:00Z,p1,,,,wellness,162673000,' +
+      'General examination of patient (procedure),,,,,'
+    );
+    
+    const conditions = await readTable('conditions');
+    expect(conditions[1]).toBe('2020-01-01,,p1,p1-enc,44054006,Diabetes mellitus type 2');
+  });
+  
+  test('should write panel components and coded values as observations', async () => {
+    await new CSVExporter(testDir).exportPersons([createTestPerson('p1')]);
+    
+    const observations = await readTable('observations');
+    expect(observations.slice(1)).toEqual([
+      '2020-01-01T09:15:00Z,p1,p1-enc,vital-signs,8480-6,Systolic Blood Pressure,120,mm[Hg],numeric',
+      '2020-01-01T09:15:00Z,p1,p1-enc,vital-signs,8462-4,Diastolic Blood Pressure,80,mm[Hg],numeric',
+      '2020-01-01T09:20:00Z,p1,,survey,72166-2,Tobacco smoking status,Never smoked tobacco,,text'
+    ]);
+    
+    const allergies = await readTable('allergies');
+    expect(allergies[1]).toBe(
+      '2020-01-01,,p1,,91935009,SNOMED-CT,Allergy to peanuts,allergy,food,247472004,Hives,MILD,,,'
+    );
+  });
+  
+  test('should append batches and keep existing files in append mode', async () => {
+    const exporter = new CSVExporter(testDir);
+    await exporter.exportPersons([createTestPerson('p1')]);
+    await exporter.exportPersons([createTestPerson('p2')]);
+    
+    expect(await readTable('patients')).toHaveLength(3);
+    
+    // A new exporter starts the files over unless appending
+    await new CSVExporter(testDir, { append: true }).exportPersons([createTestPerson('p3')]);
+    const patients = await readTable('patients');
+    expect(patients).toHaveLength(4);
+    expect(patients.filter(line => line.startsWith('Id,'))).toHaveLength(1);
+    
+    await new CSVExporter(testDir).exportPersons([createTestPerson('p4')]);
+    expect(await readTable('patients')).toHaveLength(2);
+  });
+  
+  test('should escape fields', () => {
+    expect(escapeCSV('plain')).toBe('plain');
+    expect(escapeCSV('a, b')).toBe('"a, b"');
+    expect(escapeCSV('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCSV(undefined)).toBe('');
+    expect(escapeCSV(0)).toBe('0');
+  });
+});
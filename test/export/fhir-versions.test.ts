@@ -0,0 +1,220 @@
+import { describe, test, expect } from 'bun:test';
+import { FHIRExporter, FHIRBundle } from '../../src/export/fhir/index.ts';
+import { FHIRSTU3Exporter } from '../../src/export/fhir/stu3.ts';
+import { FHIRDSTU2Exporter } from '../../src/export/fhir/dstu2.ts';
+import { createFHIRExporter } from '../../src/export/fhir/versions.ts';
+import { Person } from '../../src/types/index.ts';
+
+describe('FHIR version exporters', () => {
+  const time = Date.UTC(2020, 0, 1, 9);
+  
+  function createTestPerson(): Person {
+    return {
+      id: 'test-person-123',
+      seed: 12345,
+      attributes: new Map<string, any>([
+        ['first_name', 'John'],
+        ['last_name', 'Doe'],
+        ['marital_status', 'M']
+      ]),
+      record: {
+        encounters: [{
+          id: 'enc-123',
+          type: 'Encounter',
+          startTime: time,
+          endTime: time + 3600000,
+          encounterClass: 'wellness',
+          reason: { coding: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }] },
+          codes: { coding: [{ system: 'SNOMED-CT', code: '185349003', display: 'Encounter for check up' }] }
+        }],
+        conditions: [{
+          id: 'cond-123',
+          type: 'Condition',
+          startTime: time,
+          clinicalStatus: 'active',
+          encounter: 'enc-123',
+          codes: { coding: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }] }
+        }],
+        medications: [{
+          id: 'med-123',
+          type: 'Medication',
+          startTime: time,
+          encounter: 'enc-123',
+          reason: { coding: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }] },
+          dosage: { amount: 1, frequency: 2, period: 1, unit: 'tablet' },
+          codes: { coding: [{ system: 'RxNorm', code: '860975', display: 'Metformin 500 MG Oral Tablet' }] }
+        }],
+        observations: [],
+        procedures: [],
+        immunizations: [{
+          id: 'imm-123',
+          type: 'Immunization',
+          startTime: time,
+          encounter: 'enc-123',
+          doseNumber: 1,
+          codes: { coding: [{ system: 'CVX', code: '140', display: 'Influenza, seasonal, injectable, preservative free' }] }
+        }],
+        carePlans: [{
+          id: 'plan-123',
+          type: 'CarePlan',
+          startTime: time,
+          encounter: 'enc-123',
+          goals: [{ text: 'Maintain HbA1c below 7%' }],
+          codes: { coding: [{ system: 'SNOMED-CT', code: '698360004', display: 'Diabetes self management plan' }] }
+        }],
+        allergies: [{
+          id: 'allergy-123',
+          type: 'Allergy',
+          startTime: time,
+          allergyType: 'allergy',
+          category: 'food',
+          criticality: 'low',
+          codes: { coding: [{ system: 'SNOMED-CT', code: '91935009', display: 'Allergy to peanuts' }] }
+        }],
+        devices: [],
+        supplies: [{
+          id: 'supply-123',
+          type: 'Supply',
+          startTime: time,
+          quantity: 100,
+          codes: { coding: [{ system: 'SNOMED-CT', code: '337388004', display: 'Blood glucose testing strips' }] }
+        }],
+        imagingStudies: [],
+        reports: [{
+          id: 'report-123',
+          type: 'DiagnosticReport',
+          startTime: time,
+          encounter: 'enc-123',
+          observations: [],
+          codes: { coding: [{ system: 'LOINC', code: '4548-4', display: 'Hemoglobin A1c' }] }
+        }]
+      },
+      birthDate: new Date('1980-01-01'),
+      gender: 'M',
+      race: 'White',
+      ethnicity: 'Not Hispanic or Latino',
+      location: { city: 'Boston', state: 'MA', country: 'US' }
+    };
+  }
+  
+  function resource(bundle: FHIRBundle, type: string): any {
+    return bundle.entry.find(e => e.resource.resourceType === type)?.resource;
+  }
+  
+  test('should create the exporter for a version', () => {
+    expect(createFHIRExporter()).toBeInstanceOf(FHIRExporter);
+    expect(createFHIRExporter('STU3')).toBeInstanceOf(FHIRSTU3Exporter);
+    expect(createFHIRExporter('DSTU2')).toBeInstanceOf(FHIRDSTU2Exporter);
+  });
+  
+  test('should export STU3 resource shapes', () => {
+    const person = createTestPerson();
+    person.record.encounters[0]!.provider = 'prov-1';
+    const bundle = new FHIRSTU3Exporter().exportPerson(person);
+    
+    const encounter = resource(bundle, 'Encounter');
+    expect(encounter.reason[0].coding[0].code).toBe('44054006');
+    expect(encounter.reasonCode).toBeUndefined();
+    
+    const condition = resource(bundle, 'Condition');
+    expect(condition.clinicalStatus).toBe('active');
+    expect(condition.verificationStatus).toBe('confirmed');
+    expect(condition.context).toEqual({ reference: 'Encounter/enc-123' });
+    expect(condition.encounter).toBeUndefined();
+    
+    const request = resource(bundle, 'MedicationRequest');
+    expect(request.context).toEqual({ reference: 'Encounter/enc-123' });
+    expect(request.dosageInstruction[0].doseQuantity).toEqual({ value: 1, unit: 'tablet' });
+    
+    const immunization = resource(bundle, 'Immunization');
+    expect(immunization.date).toBe('2020-01-01T09:00:00.000Z');
+    expect(immunization.notGiven).toBe(false);
+    expect(immunization.occurrenceDateTime).toBeUndefined();
+    
+    const careTeam = resource(bundle, 'CareTeam');
+    expect(Array.isArray(careTeam.participant[0].role)).toBe(false);
+    
+    const goal = resource(bundle, 'Goal');
+    expect(goal.status).toBe('in-progress');
+    expect(goal.lifecycleStatus).toBeUndefined();
+    expect(resource(bundle, 'CarePlan').goal).toEqual([{ reference: `Goal/${goal.id}` }]);
+    
+    const allergy = resource(bundle, 'AllergyIntolerance');
+    expect(allergy.clinicalStatus).toBe('active');
+    expect(allergy.assertedDate).toBeDefined();
+    
+    const report = resource(bundle, 'DiagnosticReport');
+    expect(report.category.coding[0].code).toBe('LAB');
+    expect(report.performer).toEqual([{
+      actor: { reference: 'Organization?identifier=https://github.com/synthetichealth/synthea|prov-1' }
+    }]);
+    
+    expect(bundle.entry.find(e => e.request?.url === 'MedicationRequest')).toBeDefined();
+  });
+  
+  test('should export DSTU2 resource shapes', () => {
+    const bundle = new FHIRDSTU2Exporter().exportPerson(createTestPerson());
+    
+    const patient = resource(bundle, 'Patient');
+    expect(patient.meta.profile).toEqual(['http://fhir.org/guides/argonaut/StructureDefinition/argo-patient']);
+    expect(patient.extension.map((e: any) => e.url)).toEqual([
+      'http://fhir.org/guides/argonaut/StructureDefinition/argo-race',
+      'http://fhir.org/guides/argonaut/StructureDefinition/argo-ethnicity',
+      'http://fhir.org/guides/argonaut/StructureDefinition/argo-birthsex'
+    ]);
+    expect(patient.maritalStatus.coding[0].system).toBe('http://hl7.org/fhir/v3/MaritalStatus');
+    
+    const encounter = resource(bundle, 'Encounter');
+    expect(encounter.class).toBe('ambulatory');
+    expect(encounter.patient).toEqual({ reference: 'Patient/test-person-123' });
+    
+    const condition = resource(bundle, 'Condition');
+    expect(condition.patient).toEqual({ reference: 'Patient/test-person-123' });
+    expect(condition.clinicalStatus).toBe('active');
+    expect(condition.dateRecorded).toBe('2020-01-01');
+    
+    // MedicationOrder replaces MedicationRequest
+    expect(resource(bundle, 'MedicationRequest')).toBeUndefined();
+    const order = resource(bundle, 'MedicationOrder');
+    expect(order.dateWritten).toBe('2020-01-01T09:00:00.000Z');
+    expect(order.reasonCodeableConcept.coding[0].code).toBe('44054006');
+    expect(bundle.entry.find(e => e.resource.resourceType === 'MedicationOrder')!.request!.url).toBe('MedicationOrder');
+    
+    const immunization = resource(bundle, 'Immunization');
+    expect(immunization.wasNotGiven).toBe(false);
+    expect(immunization.reported).toBe(false);
+    
+    const allergy = resource(bundle, 'AllergyIntolerance');
+    expect(allergy.substance.coding[0].code).toBe('91935009');
+    expect(allergy.criticality).toBe('CRITL');
+    expect(allergy.category).toBe('food');
+    expect(allergy.status).toBe('active');
+    
+    // The performer is required, even without a provider
+    const report = resource(bundle, 'DiagnosticReport');
+    expect(report.category.coding[0].code).toBe('LAB');
+    expect(report.performer).toEqual({ display: 'Unknown' });
+    
+    const carePlan = resource(bundle, 'CarePlan');
+    expect(carePlan.careTeam).toBeUndefined();
+    
+    const goal = resource(bundle, 'Goal');
+    expect(goal.description).toBe('Maintain HbA1c below 7%');
+    expect(goal.status).toBe('in-progress');
+    expect(carePlan.goal).toEqual([{ reference: `Goal/${goal.id}` }]);
+    
+    // Resource types DSTU2 does not have are left out
+    expect(resource(bundle, 'CareTeam')).toBeUndefined();
+    expect(resource(bundle, 'SupplyDelivery')).toBeUndefined();
+    
+    const practitioners = new FHIRDSTU2Exporter().exportClinicians([{
+      id: '9999912345',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      gender: 'F',
+      specialty: 'GENERAL PRACTICE',
+      provider: 'prov-1'
+    }]);
+    expect(resource(practitioners, 'Practitioner').name).toEqual({ family: 'Smith', given: ['Jane'], prefix: ['Dr.'] });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, test, expect } from 'bun:test';
-import { FHIRExporter } from '../../src/export/fhir/index.ts';
+import { rm } from 'node:fs/promises';
+import { FHIRExporter, FHIRPatient } from '../../src/export/fhir/index.ts';
+import { FHIRBulkExporter } from '../../src/export/fhir/bulk.ts';
 import { Person, Encounter, Condition } from '../../src/types/index.ts';
 
 describe('FHIRExporter', () => {
@@ -24,7 +26,9 @@ describe('FHIRExporter', () => {
         carePlans: [],
         allergies: [],
         devices: [],
-        imagingStudies: []
+        supplies: [],
+        imagingStudies: [],
+        reports: []
       },
       birthDate: new Date('1980-01-01'),
       gender: 'M',
@@ -146,4 +150,581 @@ describe('FHIRExporter', () => {
     expect(content.resourceType).toBe('Bundle');
     expect(content.entry.length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+  
+  test('should export abatement for resolved conditions', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const condition = person.record.conditions[0]!;
+    condition.endTime = Date.now();
+    condition.clinicalStatus = 'resolved';
+    
+    const bundle = exporter.exportPerson(person);
+    const fhirCondition = bundle.entry.find(e => e.resource.resourceType === 'Condition')!.resource as any;
+    
+    expect(fhirCondition.clinicalStatus.coding[0].code).toBe('resolved');
+    expect(fhirCondition.abatementDateTime).toBe(new Date(condition.endTime).toISOString());
+  });
+  
+  test('should include Procedure resources with performed period', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const startTime = Date.now() - 3600000;
+    person.record.procedures.push({
+      id: 'proc-123',
+      type: 'Procedure',
+      startTime,
+      endTime: startTime + 1800000,
+      encounter: 'enc-123',
+      codes: {
+        coding: [{
+          system: 'SNOMED-CT',
+          code: '80146002',
+          display: 'Appendectomy'
+        }],
+        text: 'Appendectomy'
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const procedure = bundle.entry.find(e => e.resource.resourceType === 'Procedure')!.resource as any;
+    
+    expect(procedure.performedPeriod.start).toBe(new Date(startTime).toISOString());
+    expect(procedure.performedPeriod.end).toBe(new Date(startTime + 1800000).toISOString());
+    expect(procedure.encounter.reference).toBe('Encounter/enc-123');
+  });
+  
+  test('should include DiagnosticReport resources referencing results', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const time = Date.now();
+    person.record.observations.push({
+      id: 'obs-123',
+      type: 'Observation',
+      startTime: time,
+      category: 'laboratory',
+      value: 180,
+      unit: 'mg/dL',
+      codes: {
+        coding: [{ system: 'LOINC', code: '2093-3', display: 'Total cholesterol' }]
+      }
+    });
+    person.record.reports.push({
+      id: 'report-123',
+      type: 'DiagnosticReport',
+      startTime: time,
+      observations: ['obs-123'],
+      codes: {
+        coding: [{ system: 'LOINC', code: '57698-3', display: 'Lipid panel' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const observation = bundle.entry.find(e => e.resource.resourceType === 'Observation')!.resource as any;
+    const report = bundle.entry.find(e => e.resource.resourceType === 'DiagnosticReport')!.resource as any;
+    
+    expect(observation.valueQuantity).toEqual({ value: 180, unit: 'mg/dL' });
+    expect(observation.category[0].coding[0].code).toBe('laboratory');
+    expect(report.code.coding[0].code).toBe('57698-3');
+    expect(report.result).toEqual([{ reference: 'Observation/obs-123' }]);
+  });
+  
+  test('should export numeric observations without a unit', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.observations.push({
+      id: 'obs-123',
+      type: 'Observation',
+      startTime: Date.now(),
+      category: 'survey',
+      value: 4,
+      codes: {
+        coding: [{ system: 'LOINC', code: '72514-3', display: 'Pain severity' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const observation = bundle.entry.find(e => e.resource.resourceType === 'Observation')!.resource as any;
+    
+    expect(observation.valueQuantity).toStrictEqual({ value: 4 });
+  });
+  
+  test('should export panel members as components', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const time = Date.now();
+    const member = (code: string, value: number, unit?: string) => ({
+      id: `obs-${code}`,
+      type: 'Observation' as const,
+      startTime: time,
+      value,
+      unit,
+      codes: { coding: [{ system: 'LOINC', code, display: code }] }
+    });
+    person.record.observations.push({
+      id: 'panel-123',
+      type: 'Observation',
+      startTime: time,
+      observations: [member('8480-6', 120, 'mm[Hg]'), member('72166-2', 2)],
+      codes: {
+        coding: [{ system: 'LOINC', code: '85354-9', display: 'Blood pressure panel' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const panel = bundle.entry.find(e => e.resource.resourceType === 'Observation')!.resource as any;
+    
+    expect(panel.component.map((c: any) => c.valueQuantity)).toEqual([
+      { value: 120, unit: 'mm[Hg]' },
+      { value: 2, unit: undefined }
+    ]);
+  });
+  
+  test('should include CarePlan and CareTeam resources', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.carePlans.push({
+      id: 'careplan-123',
+      type: 'CarePlan',
+      startTime: Date.now(),
+      encounter: 'enc-123',
+      reason: person.record.conditions[0]!.codes,
+      activities: [{
+        coding: [{ system: 'SNOMED-CT', code: '160670007', display: 'Diabetic diet' }]
+      }],
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '698360004', display: 'Diabetes self management plan' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const carePlan = bundle.entry.find(e => e.resource.resourceType === 'CarePlan')!.resource as any;
+    const careTeam = bundle.entry.find(e => e.resource.resourceType === 'CareTeam')!.resource as any;
+    
+    expect(carePlan.status).toBe('active');
+    expect(carePlan.subject.reference).toBe('Patient/test-person-123');
+    expect(carePlan.encounter.reference).toBe('Encounter/enc-123');
+    expect(carePlan.addresses).toEqual([{ reference: 'Condition/cond-123' }]);
+    expect(carePlan.careTeam).toEqual([{ reference: `CareTeam/${careTeam.id}` }]);
+    expect(carePlan.activity[0].detail.code.coding[0].code).toBe('160670007');
+    expect(careTeam.participant[0].member.reference).toBe('Patient/test-person-123');
+    expect(carePlan.goal).toBeUndefined();
+  });
+  
+  test('should include Goal resources of care plans', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.carePlans.push({
+      id: 'careplan-123',
+      type: 'CarePlan',
+      startTime: Date.now(),
+      goals: [
+        { text: 'Maintain HbA1c below 7%', addresses: [person.record.conditions[0]!.codes] },
+        { text: 'Walk 30 minutes a day' }
+      ],
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '698360004', display: 'Diabetes self management plan' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const carePlan = bundle.entry.find(e => e.resource.resourceType === 'CarePlan')!.resource as any;
+    const goals = bundle.entry.filter(e => e.resource.resourceType === 'Goal').map(e => e.resource as any);
+    
+    expect(goals.map(goal => goal.description.text)).toEqual(['Maintain HbA1c below 7%', 'Walk 30 minutes a day']);
+    expect(goals[0].lifecycleStatus).toBe('active');
+    expect(goals[0].subject.reference).toBe('Patient/test-person-123');
+    expect(goals[0].addresses).toEqual([{ reference: 'Condition/cond-123' }]);
+    expect(goals[1].addresses).toBeUndefined();
+    expect(carePlan.goal).toEqual(goals.map(goal => ({ reference: `Goal/${goal.id}` })));
+  });
+  
+  test('should include AllergyIntolerance resources', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.allergies.push({
+      id: 'allergy-123',
+      type: 'Allergy',
+      startTime: Date.now(),
+      allergyType: 'allergy',
+      category: 'food',
+      criticality: 'high',
+      reactions: [{
+        manifestation: {
+          coding: [{ system: 'SNOMED-CT', code: '39579001', display: 'Anaphylaxis' }]
+        },
+        severity: 'severe'
+      }],
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '91935009', display: 'Allergy to peanuts' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const allergy = bundle.entry.find(e => e.resource.resourceType === 'AllergyIntolerance')!.resource as any;
+    
+    expect(allergy.clinicalStatus.coding[0].code).toBe('active');
+    expect(allergy.type).toBe('allergy');
+    expect(allergy.category).toEqual(['food']);
+    expect(allergy.criticality).toBe('high');
+    expect(allergy.patient.reference).toBe('Patient/test-person-123');
+    expect(allergy.reaction[0].manifestation[0].coding[0].code).toBe('39579001');
+    expect(allergy.reaction[0].severity).toBe('severe');
+  });
+  
+  test('should include Device, SupplyDelivery and ImagingStudy resources', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const time = Date.UTC(2024, 0, 15);
+    person.record.devices.push({
+      id: 'device-123',
+      type: 'Device',
+      startTime: time,
+      udi: '(01)00123456789012(11)231201(17)340115(10)1234567890(21)0987654321',
+      deviceIdentifier: '00123456789012',
+      lotNumber: '1234567890',
+      serialNumber: '0987654321',
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '706004007', display: 'Implantable cardiac pacemaker' }],
+        text: 'Implantable cardiac pacemaker'
+      }
+    });
+    person.record.supplies.push({
+      id: 'supply-123',
+      type: 'Supply',
+      startTime: time,
+      quantity: 100,
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '337388004', display: 'Blood glucose testing strips' }]
+      }
+    });
+    person.record.imagingStudies.push({
+      id: 'study-123',
+      type: 'ImagingStudy',
+      startTime: time,
+      uid: '1.2.840.99999999.1.2',
+      modality: { coding: [{ system: 'DICOM-DCM', code: 'CR' }] },
+      series: [{
+        uid: '1.2.840.99999999.1.2.1',
+        number: 1,
+        modality: { coding: [{ system: 'DICOM-DCM', code: 'CR' }] },
+        instances: [{
+          uid: '1.2.840.99999999.1.2.1.1',
+          number: 1,
+          title: 'PA view',
+          sopClass: { coding: [{ system: 'DICOM-SOP', code: '1.2.840.10008.5.1.4.1.1.1.1' }] }
+        }]
+      }],
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '399208008', display: 'Plain chest X-ray' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const device = bundle.entry.find(e => e.resource.resourceType === 'Device')!.resource as any;
+    const supply = bundle.entry.find(e => e.resource.resourceType === 'SupplyDelivery')!.resource as any;
+    const study = bundle.entry.find(e => e.resource.resourceType === 'ImagingStudy')!.resource as any;
+    
+    expect(device.status).toBe('active');
+    expect(device.udiCarrier[0].deviceIdentifier).toBe('00123456789012');
+    expect(device.udiCarrier[0].carrierHRF).toStartWith('(01)00123456789012');
+    expect(device.patient.reference).toBe('Patient/test-person-123');
+    
+    expect(supply.suppliedItem.quantity.value).toBe(100);
+    expect(supply.suppliedItem.itemCodeableConcept.coding[0].code).toBe('337388004');
+    
+    expect(study.identifier[0].value).toBe('urn:oid:1.2.840.99999999.1.2');
+    expect(study.numberOfSeries).toBe(1);
+    expect(study.numberOfInstances).toBe(1);
+    expect(study.series[0].modality.code).toBe('CR');
+    expect(study.series[0].instance[0].uid).toBe('1.2.840.99999999.1.2.1.1');
+  });
+  
+  test('should include Immunization resources', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.immunizations.push({
+      id: 'imm-123',
+      type: 'Immunization',
+      startTime: Date.now(),
+      series: 'dtap',
+      doseNumber: 2,
+      doseQuantity: { value: 0.5, unit: 'mL' },
+      encounter: 'enc-123',
+      codes: {
+        coding: [{ system: 'CVX', code: '20', display: 'DTaP' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const immunization = bundle.entry.find(e => e.resource.resourceType === 'Immunization')!.resource as any;
+    
+    expect(immunization.status).toBe('completed');
+    expect(immunization.vaccineCode.coding[0].code).toBe('20');
+    expect(immunization.patient.reference).toBe('Patient/test-person-123');
+    expect(immunization.encounter.reference).toBe('Encounter/enc-123');
+    expect(immunization.doseQuantity).toEqual({
+      value: 0.5,
+      unit: 'mL',
+      system: 'http://unitsofmeasure.org',
+      code: 'mL'
+    });
+    expect(immunization.protocolApplied).toEqual([{ series: 'dtap', doseNumberPositiveInt: 2 }]);
+  });
+  
+  test('should include the discharge disposition of finished encounters', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    const time = Date.now();
+    person.record.encounters.push({
+      id: 'enc-456',
+      type: 'Encounter',
+      startTime: time,
+      endTime: time + 3 * 24 * 60 * 60 * 1000,
+      encounterClass: 'inpatient',
+      discharge: {
+        coding: [{ system: 'NUBC', code: '01', display: 'Discharged to home' }],
+        text: 'Discharged to home'
+      },
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '32485007', display: 'Hospital admission' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const encounter = bundle.entry.find(e => e.resource.id === 'enc-456')!.resource as any;
+    
+    expect(encounter.status).toBe('finished');
+    expect(encounter.period.end).toBe(new Date(time + 3 * 24 * 60 * 60 * 1000).toISOString());
+    expect(encounter.hospitalization.dischargeDisposition.coding[0].code).toBe('01');
+  });
+  
+  test('should reference the encounter of conditions and medication requests', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.conditions[0]!.encounter = 'enc-123';
+    person.record.medications.push({
+      id: 'med-123',
+      type: 'Medication',
+      startTime: Date.now(),
+      encounter: 'enc-123',
+      codes: {
+        coding: [{ system: 'RxNorm', code: '860975', display: 'Metformin' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const condition = bundle.entry.find(e => e.resource.resourceType === 'Condition')!.resource as any;
+    const request = bundle.entry.find(e => e.resource.resourceType === 'MedicationRequest')!.resource as any;
+    
+    expect(condition.encounter.reference).toBe('Encounter/enc-123');
+    expect(request.encounter.reference).toBe('Encounter/enc-123');
+  });
+  
+  test('should export Bulk Data NDJSON files and a manifest', async () => {
+    const outputDirectory = `/tmp/test-fhir-bulk-${Date.now()}`;
+    const exporter = new FHIRBulkExporter(outputDirectory);
+    
+    await exporter.exportPersons([createTestPerson(), { ...createTestPerson(), id: 'test-person-456' }]);
+    const manifest = await exporter.finish();
+    
+    expect(manifest.requiresAccessToken).toBe(false);
+    expect(manifest.output).toEqual([
+      { type: 'Condition', url: 'Condition.ndjson', count: 2 },
+      { type: 'Encounter', url: 'Encounter.ndjson', count: 2 },
+      { type: 'Patient', url: 'Patient.ndjson', count: 2 }
+    ]);
+    
+    const patients = (await Bun.file(`${outputDirectory}/Patient.ndjson`).text())
+      .trimEnd()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(patients.map(patient => patient.id)).toEqual(['test-person-123', 'test-person-456']);
+    
+    const written = await Bun.file(`${outputDirectory}/manifest.json`).json();
+    expect(written).toEqual(manifest);
+    
+    await rm(outputDirectory, { recursive: true, force: true });
+  });
+  
+  test('should resolve provider references in Bulk Data', async () => {
+    const outputDirectory = `/tmp/test-fhir-bulk-providers-${Date.now()}`;
+    const exporter = new FHIRBulkExporter(outputDirectory);
+    const person = createTestPerson();
+    person.record.encounters[0]!.provider = 'prov-1';
+    person.record.encounters[0]!.clinician = '9999912345';
+    
+    await exporter.exportPerson(person);
+    await exporter.exportProviders([{ id: 'prov-1', name: 'General Hospital', type: 'hospital' }], [{
+      id: '9999912345',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      gender: 'F',
+      specialty: 'GENERAL PRACTICE',
+      provider: 'prov-1'
+    }]);
+    
+    const read = async (type: string) => JSON.parse(await Bun.file(`${outputDirectory}/${type}.ndjson`).text());
+    const encounter = await read('Encounter');
+    const organization = await read('Organization');
+    const location = await read('Location');
+    const practitioner = await read('Practitioner');
+    
+    expect(encounter.serviceProvider.reference).toBe(`Organization/${organization.id}`);
+    expect(encounter.location[0].location.reference).toBe(`Location/${location.id}`);
+    expect(encounter.participant[0].individual.reference).toBe(`Practitioner/${practitioner.id}`);
+    expect(location.managingOrganization.reference).toBe(`Organization/${organization.id}`);
+    
+    await rm(outputDirectory, { recursive: true, force: true });
+  });
+  
+  test('should export US Core Patient details', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.race = 'Asian';
+    person.ethnicity = 'Hispanic or Latino';
+    person.location!.coordinates = { latitude: 42.36, longitude: -71.06 };
+    person.attributes.set('ssn', '999-12-3456');
+    person.attributes.set('drivers', 'S99912345');
+    person.attributes.set('telecom', '555-123-4567');
+    person.attributes.set('marital_status', 'M');
+    person.attributes.set('language', 'Spanish');
+    person.attributes.set('multiple_birth', 2);
+    
+    const bundle = exporter.exportPerson(person);
+    const patient = bundle.entry.find(e => e.resource.resourceType === 'Patient')!.resource as FHIRPatient;
+    
+    expect(patient.meta!.profile).toEqual(['http://hl7.org/fhir/us/core/StructureDefinition/us-core-patient']);
+    
+    const race = patient.extension!.find(e => e.url.endsWith('us-core-race'))!;
+    expect(race.extension).toEqual([
+      { url: 'ombCategory', valueCoding: { system: 'urn:oid:2.16.840.1.113883.6.238', code: '2028-9', display: 'Asian' } },
+      { url: 'text', valueString: 'Asian' }
+    ]);
+    const ethnicity = patient.extension!.find(e => e.url.endsWith('us-core-ethnicity'))!;
+    expect(ethnicity.extension![0]!.valueCoding!.code).toBe('2135-2');
+    expect(patient.extension!.find(e => e.url.endsWith('us-core-birthsex'))!.valueCode).toBe('M');
+    
+    expect(patient.identifier!.map(i => [i.type!.coding[0]!.code, i.system, i.value])).toEqual([
+      ['MR', 'http://hospital.smarthealthit.org', 'test-person-123'],
+      ['SS', 'http://hl7.org/fhir/sid/us-ssn', '999-12-3456'],
+      ['DL', 'urn:oid:2.16.840.1.113883.4.3.25', 'S99912345']
+    ]);
+    expect(patient.telecom).toEqual([{ system: 'phone', value: '555-123-4567', use: 'home' }]);
+    expect(patient.address![0]!.extension![0]!.extension).toEqual([
+      { url: 'latitude', valueDecimal: 42.36 },
+      { url: 'longitude', valueDecimal: -71.06 }
+    ]);
+    expect(patient.maritalStatus!.coding[0]!.code).toBe('M');
+    expect(patient.communication![0]!.language.coding[0]!.code).toBe('es');
+    expect(patient.multipleBirthInteger).toBe(2);
+  });
+  
+  test('should only give OMB race categories a coding', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.race = 'Other';
+    
+    const bundle = exporter.exportPerson(person);
+    const patient = bundle.entry.find(e => e.resource.resourceType === 'Patient')!.resource as FHIRPatient;
+    const race = patient.extension!.find(e => e.url.endsWith('us-core-race'))!;
+    
+    expect(race.extension).toEqual([{ url: 'text', valueString: 'Other' }]);
+    expect(patient.identifier).toHaveLength(1);
+  });
+  
+  test('should export providers and clinicians as conditional creates', () => {
+    const exporter = new FHIRExporter();
+    
+    const hospital = exporter.exportProviders([{
+      id: 'prov-1',
+      name: 'General Hospital',
+      type: 'hospital',
+      address: '1 Hospital Way',
+      city: 'Boston',
+      state: 'MA',
+      zip: '02114',
+      phone: '555-000-1111',
+      coordinates: { latitude: 42.36, longitude: -71.07 }
+    }]);
+    
+    expect(hospital.type).toBe('transaction');
+    expect(hospital.entry.map(e => e.request)).toEqual([
+      { method: 'POST', url: 'Organization', ifNoneExist: 'identifier=https://github.com/synthetichealth/synthea|prov-1' },
+      { method: 'POST', url: 'Location', ifNoneExist: 'identifier=https://github.com/synthetichealth/synthea|prov-1' }
+    ]);
+    
+    const organization = hospital.entry[0]!.resource as any;
+    expect(organization.name).toBe('General Hospital');
+    expect(organization.address[0]).toEqual({
+      line: ['1 Hospital Way'],
+      city: 'Boston',
+      state: 'MA',
+      postalCode: '02114',
+      country: 'US'
+    });
+    
+    const location = hospital.entry[1]!.resource as any;
+    expect(location.position).toEqual({ latitude: 42.36, longitude: -71.07 });
+    expect(location.managingOrganization.reference).toBe(hospital.entry[0]!.fullUrl);
+    
+    // Placeholder fullUrls are UUIDs, the same in every export
+    const uuid = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+    expect(hospital.entry.every(e => uuid.test(e.fullUrl))).toBe(true);
+    expect(organization.id).not.toBe(location.id);
+    expect(exporter.exportProviders([{ id: 'prov-1', name: 'Other', type: 'hospital' }]).entry[0]!.fullUrl)
+      .toBe(hospital.entry[0]!.fullUrl);
+    
+    const practitioners = exporter.exportClinicians([{
+      id: '9999912345',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      gender: 'F',
+      specialty: 'GENERAL PRACTICE',
+      provider: 'prov-1'
+    }]);
+    
+    expect(practitioners.entry[0]!.request).toEqual({
+      method: 'POST',
+      url: 'Practitioner',
+      ifNoneExist: 'identifier=http://hl7.org/fhir/sid/us-npi|9999912345'
+    });
+    expect((practitioners.entry[0]!.resource as any).name[0]).toEqual({ family: 'Smith', given: ['Jane'], prefix: ['Dr.'] });
+    expect(uuid.test(practitioners.entry[0]!.fullUrl)).toBe(true);
+  });
+  
+  test('should reference providers and clinicians of encounters by identifier', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.encounters[0]!.provider = 'prov-1';
+    person.record.encounters[0]!.clinician = '9999912345';
+    
+    const bundle = exporter.exportPerson(person);
+    const encounter = bundle.entry.find(e => e.resource.resourceType === 'Encounter')!.resource as any;
+    
+    expect(encounter.serviceProvider.reference).toBe('Organization?identifier=https://github.com/synthetichealth/synthea|prov-1');
+    expect(encounter.location[0].location.reference).toBe('Location?identifier=https://github.com/synthetichealth/synthea|prov-1');
+    expect(encounter.participant[0].individual.reference).toBe('Practitioner?identifier=http://hl7.org/fhir/sid/us-npi|9999912345');
+    
+    // Shared resources are not part of patient bundles
+    expect(bundle.entry.some(e => e.resource.resourceType === 'Organization')).toBe(false);
+  });
+  
+  test('should reference the dispensing pharmacy of medication requests', () => {
+    const exporter = new FHIRExporter();
+    const person = createTestPerson();
+    person.record.medications.push({
+      id: 'med-123',
+      type: 'Medication',
+      startTime: Date.now(),
+      pharmacy: 'rx-1',
+      codes: {
+        coding: [{ system: 'RxNorm', code: '860975', display: 'Metformin' }]
+      }
+    });
+    
+    const bundle = exporter.exportPerson(person);
+    const request = bundle.entry.find(e => e.resource.resourceType === 'MedicationRequest')!.resource as any;
+    
+    expect(request.dispenseRequest.performer.reference).toBe('Organization?identifier=https://github.com/synthetichealth/synthea|rx-1');
+  });
+});
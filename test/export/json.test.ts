@@ -0,0 +1,163 @@
+import { describe, test, expect } from 'bun:test';
+import { join } from 'node:path';
+import { JSONExporter, JSON_SCHEMA_VERSION, PersonJSON } from '../../src/export/json/index.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { ModuleEngine } from '../../src/engine/module-engine.ts';
+import { registerAllStates } from '../../src/engine/states/index.ts';
+import { Person, Condition, Module } from '../../src/types/index.ts';
+
+describe('JSONExporter', () => {
+  function createTestPerson(): Person {
+    const condition: Condition = {
+      id: 'cond-123',
+      type: 'Condition',
+      startTime: Date.UTC(2020, 0, 1),
+      clinicalStatus: 'active',
+      encounter: 'enc-123',
+      codes: {
+        coding: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }],
+        text: 'Diabetes mellitus type 2'
+      }
+    };
+    
+    return {
+      id: 'test-person-123',
+      seed: 12345,
+      attributes: new Map<string, any>([
+        ['alive', false],
+        ['first_name', 'John'],
+        ['diabetes', condition],
+        ['vital_signs', { 'BMI': 27.5 }],
+        ['diagnosed', new Date(Date.UTC(2020, 0, 1))],
+        ['counts', new Map([['visits', 3]])],
+        ['module_context_Diabetes', { history: ['Initial'], states: new Map() }]
+      ]),
+      record: {
+        encounters: [{
+          id: 'enc-123',
+          type: 'Encounter',
+          startTime: Date.UTC(2020, 0, 1),
+          endTime: Date.UTC(2020, 0, 1, 1),
+          encounterClass: 'ambulatory',
+          codes: { coding: [{ system: 'SNOMED-CT', code: '185349003', display: 'Encounter for check up' }] }
+        }],
+        conditions: [condition],
+        medications: [],
+        observations: [],
+        procedures: [],
+        immunizations: [],
+        carePlans: [],
+        allergies: [],
+        devices: [],
+        supplies: [],
+        imagingStudies: [],
+        reports: []
+      },
+      birthDate: new Date('1980-01-01'),
+      deathDate: new Date('2021-06-01'),
+      gender: 'M',
+      race: 'White',
+      ethnicity: 'Not Hispanic or Latino',
+      location: {
+        city: 'Boston',
+        state: 'MA',
+        country: 'US',
+        coordinates: { latitude: 42.36, longitude: -71.06 }
+      }
+    };
+  }
+  
+  test('should write the versioned format', () => {
+    const json = new JSONExporter().toJSON(createTestPerson());
+    
+    expect(json.schemaVersion).toBe(JSON_SCHEMA_VERSION);
+    expect(json.birthDate).toBe('1980-01-01T00:00:00.000Z');
+    expect(json.deathDate).toBe('2021-06-01T00:00:00.000Z');
+    expect(json.record.conditions[0]!.startTime).toBe(Date.UTC(2020, 0, 1));
+    
+    // Attributes are sorted, tagged and exclude module state
+    expect(Object.keys(json.attributes)).toEqual(['alive', 'counts', 'diabetes', 'diagnosed', 'first_name', 'vital_signs']);
+    expect(json.attributes.diabetes).toEqual({ $entry: 'cond-123' });
+    expect(json.attributes.diagnosed).toEqual({ $date: '2020-01-01T00:00:00.000Z' });
+    expect(json.attributes.counts).toEqual({ $map: [['visits', 3]] });
+  });
+  
+  test('should round-trip a person', () => {
+    const exporter = new JSONExporter();
+    const person = createTestPerson();
+    const text = exporter.stringify(person);
+    const restored = exporter.parse(text);
+    
+    expect(restored.birthDate).toEqual(person.birthDate);
+    expect(restored.deathDate).toEqual(person.deathDate!);
+    expect(restored.location).toEqual(person.location!);
+    expect(restored.record).toEqual(person.record);
+    
+    // Attributes referring to entries point at the restored record
+    expect(restored.attributes.get('diabetes')).toBe(restored.record.conditions[0]);
+    expect(restored.attributes.get('diagnosed')).toEqual(new Date(Date.UTC(2020, 0, 1)));
+    expect(restored.attributes.get('counts')).toEqual(new Map([['visits', 3]]));
+    expect(restored.attributes.get('vital_signs')).toEqual({ 'BMI': 27.5 });
+    expect(restored.attributes.has('module_context_Diabetes')).toBe(false);
+    
+    // Writing the restored person again gives the same output
+    expect(exporter.stringify(restored)).toBe(text);
+  });
+  
+  test('should reject records of another major version', () => {
+    const exporter = new JSONExporter();
+    const json: PersonJSON = { ...exporter.toJSON(createTestPerson()), schemaVersion: '2.0.0' };
+    
+    expect(() => exporter.fromJSON(json)).toThrow('Unsupported JSON schema version');
+    expect(() => exporter.fromJSON({ ...json, schemaVersion: '1.4.0' })).not.toThrow();
+  });
+  
+  test('should write the same ids in runs with the same seed', async () => {
+    registerAllStates();
+    const module: Module = {
+      name: 'Checkup',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Checkup'
+        },
+        'Checkup': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          codes: [{ system: 'SNOMED-CT', code: '185349003', display: 'Encounter for check up' }],
+          direct_transition: 'Diabetes'
+        },
+        'Diabetes': {
+          type: 'ConditionOnset',
+          codes: [{ system: 'SNOMED-CT', code: '44054006', display: 'Diabetes mellitus type 2' }],
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const run = async () => {
+      const person = PersonFactory.createPerson({ seed: 42, birthDate: new Date('1980-01-01T00:00:00Z') });
+      await new ModuleEngine(module).process(person, Date.UTC(2020, 0, 1));
+      return new JSONExporter().toJSON(person);
+    };
+    
+    const [first, second] = [await run(), await run()];
+    expect(first.record.encounters).toHaveLength(1);
+    expect(second.id).toBe(first.id);
+    expect(second.record).toEqual(first.record);
+  });
+  
+  test('should publish a schema matching the current version', async () => {
+    const schema = await Bun.file(join(import.meta.dir, '../../src/export/json/person.schema.json')).json();
+    const json = new JSONExporter().toJSON(createTestPerson());
+    
+    expect(new RegExp(schema.properties.schemaVersion.pattern).test(json.schemaVersion)).toBe(true);
+    for (const field of schema.required) {
+      expect(json).toHaveProperty(field);
+    }
+    expect(Object.keys(json.record).sort()).toEqual([...schema.properties.record.required].sort());
+  });
+});
@@ -145,6 +145,137 @@ describe('Generator', () => {
     expect(bundle.entry.length).toBeGreaterThan(0);
   });
   
+  test('should stream Bulk Data without keeping persons', async () => {
+    const outputDirectory = `${testOutputDir}-bulk`;
+    await rm(outputDirectory, { recursive: true, force: true });
+    
+    const generator = new Generator({
+      population: 5,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: 'fhir',
+      bulkData: true,
+      outputDirectory
+    });
+    
+    const stats = await generator.generate();
+    const patients = (await Bun.file(`${outputDirectory}/Patient.ndjson`).text()).trim().split('\n');
+    
+    expect(stats.totalGenerated).toBe(5);
+    expect(stats.livingPatients + stats.deceasedPatients).toBe(5);
+    expect(patients).toHaveLength(5);
+    expect((generator as any).storage).toBeUndefined();
+    
+    await rm(outputDirectory, { recursive: true, force: true });
+  });
+  
+  test('should stream CSV rows without keeping persons', async () => {
+    const outputDirectory = `${testOutputDir}-csv`;
+    await rm(outputDirectory, { recursive: true, force: true });
+    
+    const generator = new Generator({
+      population: 5,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: 'csv',
+      outputDirectory
+    });
+    
+    const stats = await generator.generate();
+    const patients = (await Bun.file(`${outputDirectory}/patients.csv`).text()).trim().split('\n');
+    
+    expect(stats.totalGenerated).toBe(5);
+    expect(patients).toHaveLength(6);
+    expect(patients[0]).toStartWith('Id,BIRTHDATE');
+    expect((generator as any).storage).toBeUndefined();
+    
+    await rm(outputDirectory, { recursive: true, force: true });
+  });
+  
+  test('should only keep persons matching the filters', async () => {
+    const storage = new InMemoryPersonStorage();
+    const generator = new Generator({
+      population: 3,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: undefined,
+      minAge: 30,
+      maxAge: 40,
+      gender: 'F',
+      keepConditions: ['TEST001']
+    }, storage);
+    
+    const stats = await generator.generate();
+    const persons = await storage.getAll();
+    
+    expect(stats.totalGenerated).toBe(3);
+    expect(persons).toHaveLength(3);
+    
+    for (const person of persons) {
+      const age = (Date.now() - person.birthDate.getTime()) / (365 * 24 * 60 * 60 * 1000);
+      
+      expect(person.gender).toBe('F');
+      expect(age).toBeGreaterThanOrEqual(30);
+      expect(age).toBeLessThan(41);
+      expect(person.record.conditions.some(c => c.codes.coding[0]?.code === 'TEST001')).toBe(true);
+    }
+  });
+  
+  test('should measure ages at the reference date', async () => {
+    const referenceTime = Date.UTC(2000, 0, 1);
+    const storage = new InMemoryPersonStorage();
+    const generator = new Generator({
+      population: 5,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: undefined,
+      minAge: 30,
+      maxAge: 40,
+      referenceTime
+    }, storage);
+    
+    await generator.generate();
+    
+    for (const person of await storage.getAll()) {
+      const age = (referenceTime - person.birthDate.getTime()) / (365 * 24 * 60 * 60 * 1000);
+      
+      expect(age).toBeGreaterThanOrEqual(30);
+      expect(age).toBeLessThan(41);
+    }
+  });
+  
+  test('should stop keeping persons after the maximum attempts', async () => {
+    const storage = new InMemoryPersonStorage();
+    const generator = new Generator({
+      population: 2,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: undefined,
+      keepConditions: ['NEVER'],
+      maxAttempts: 5
+    }, storage);
+    
+    const stats = await generator.generate();
+    
+    expect(stats.totalGenerated).toBe(0);
+    expect(stats.attempts).toBe(5);
+    expect(await storage.count()).toBe(0);
+  });
+  
+  test('should keep persons by condition system and code', async () => {
+    const generate = (keepConditions: string[]) => new Generator({
+      population: 1,
+      seed: 12345,
+      modules: [testModulesDir],
+      exportFormat: undefined,
+      keepConditions,
+      maxAttempts: 5
+    }).generate();
+    
+    expect((await generate(['SNOMED-CT|TEST001'])).totalGenerated).toBe(1);
+    expect((await generate(['LOINC|TEST001'])).totalGenerated).toBe(0);
+  });
+  
   test('should generate a single person directly', async () => {
     const storage = new InMemoryPersonStorage();
     const generator = new Generator({
@@ -160,9 +291,7 @@ describe('Generator', () => {
     expect(person.record).toBeDefined();
   });
   
-  test.skip('should use parallel workers when requested', async () => {
-    // NOTE: Worker threads have serialization issues with Bun currently
-    // This is documented as a limitation - use sequential generation for now
+  test('should use parallel workers when requested', async () => {
     const storage = new InMemoryPersonStorage();
     const generator = new Generator({
       population: 20,
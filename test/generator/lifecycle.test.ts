@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { simulateLife, orderModules } from '../../src/generator/lifecycle.ts';
+import { ModuleEngine } from '../../src/engine/module-engine.ts';
+import { ModuleLoadResult } from '../../src/engine/module-loader.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { registerAllStates } from '../../src/engine/states/index.ts';
+import { Module } from '../../src/types/index.ts';
+
+describe('Lifecycle simulation', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  
+  beforeAll(() => {
+    registerAllStates();
+  });
+  
+  // Sets a flag after a few days, then dies
+  const riskModule: Module = {
+    name: 'Risk',
+    states: {
+      'Initial': {
+        type: 'Initial',
+        direct_transition: 'Wait'
+      },
+      'Wait': {
+        type: 'Delay',
+        exact: { quantity: 3, unit: 'days' },
+        direct_transition: 'Flag'
+      },
+      'Flag': {
+        type: 'SetAttribute',
+        attribute: 'at_risk',
+        value: true,
+        direct_transition: 'Wait_More'
+      },
+      'Wait_More': {
+        type: 'Delay',
+        exact: { quantity: 3, unit: 'days' },
+        direct_transition: 'Die'
+      },
+      'Die': {
+        type: 'Death',
+        direct_transition: 'Terminal'
+      },
+      'Terminal': {
+        type: 'Terminal'
+      }
+    }
+  };
+  
+  // Reacts to the flag and keeps recording encounters every day
+  const followUpModule: Module = {
+    name: 'Follow Up',
+    states: {
+      'Initial': {
+        type: 'Initial',
+        direct_transition: 'Wait_For_Risk'
+      },
+      'Wait_For_Risk': {
+        type: 'Guard',
+        allow: {
+          condition_type: 'Attribute',
+          attribute: 'at_risk',
+          value: true
+        },
+        direct_transition: 'Noticed'
+      },
+      'Noticed': {
+        type: 'SetAttribute',
+        attribute: 'risk_noticed',
+        value: true,
+        direct_transition: 'Visit'
+      },
+      'Visit': {
+        type: 'Encounter',
+        encounter_class: 'ambulatory',
+        direct_transition: 'Next_Day'
+      },
+      'Next_Day': {
+        type: 'Delay',
+        exact: { quantity: 1, unit: 'days' },
+        direct_transition: 'Visit'
+      }
+    }
+  };
+  
+  test('should advance modules in lock-step and stop all of them at death', async () => {
+    const birthDate = new Date('2000-01-01T00:00:00Z');
+    const person = PersonFactory.createPerson({ seed: 42, birthDate });
+    const engines = [new ModuleEngine(riskModule), new ModuleEngine(followUpModule)];
+    
+    await simulateLife(person, engines, {
+      timestep: DAY,
+      endTime: birthDate.getTime() + 30 * DAY
+    });
+    
+    expect(person.attributes.get('risk_noticed')).toBe(true);
+    expect(person.deathDate?.getTime()).toBe(birthDate.getTime() + 6 * DAY);
+    
+    // No visits after death, even though the module loops forever
+    for (const encounter of person.record.encounters) {
+      expect(encounter.startTime).toBeLessThanOrEqual(person.deathDate!.getTime());
+    }
+  });
+  
+  test('should order top-level modules deterministically', () => {
+    const result = (name: string, key: string, submodule = false): ModuleLoadResult => ({
+      module: { name, states: {} },
+      engine: {} as ModuleEngine,
+      errors: [],
+      key,
+      submodule
+    });
+    
+    const modules = new Map([
+      ['Zeta', result('Zeta', 'zeta')],
+      ['Sub', result('Sub', 'medications/sub', true)],
+      ['Alpha', result('Alpha', 'alpha')]
+    ]);
+    
+    expect(orderModules(modules).map(m => m.module.name)).toEqual(['Alpha', 'Zeta']);
+  });
+});
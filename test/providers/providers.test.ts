@@ -0,0 +1,204 @@
+import { describe, test, expect, beforeAll, afterEach } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { ProviderNetwork, getProviderNetwork, setProviderNetwork } from '../../src/providers/index.ts';
+import { ModuleEngine } from '../../src/engine/module-engine.ts';
+import { registerAllStates } from '../../src/engine/states/index.ts';
+import { PersonFactory } from '../../src/models/person-factory.ts';
+import { Generator } from '../../src/generator/generator.ts';
+import { InMemoryPersonStorage } from '../../src/storage/index.ts';
+import { Encounter, Module } from '../../src/types/index.ts';
+
+describe('ProviderNetwork', () => {
+  const testDir = '/tmp/synthea-test-providers';
+  
+  // Boston and Springfield, MA
+  const BOSTON = { latitude: 42.3601, longitude: -71.0589 };
+  const SPRINGFIELD = { latitude: 42.1015, longitude: -72.5898 };
+  
+  beforeAll(async () => {
+    registerAllStates();
+    
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    await writeFile(`${testDir}/hospitals.csv`,
+      'id,name,address,city,state,zip,phone,LAT,LON\n' +
+      'h1,"General Hospital, Boston",1 Hospital Way,Boston,MA,02114,555-000-1111,42.3626,-71.0685\n' +
+      'h2,Springfield Medical Center,2 Chestnut St,Springfield,MA,01107,555-000-2222,42.1109,-72.5998\n');
+    await writeFile(`${testDir}/primary_care_facilities.csv`,
+      'id,name,address,city,state,zip,phone,LAT,LON\n' +
+      'p1,Back Bay Family Practice,3 Boylston St,Boston,MA,02116,555-000-3333,42.3496,-71.0746\n' +
+      'p2,Springfield Family Health,4 Main St,Springfield,MA,01103,555-000-4444,42.1029,-72.5907\n');
+    await writeFile(`${testDir}/pharmacies.csv`,
+      'id,name,address,city,state,zip,phone,LAT,LON\n' +
+      'rx1,Beacon Hill Pharmacy,5 Charles St,Boston,MA,02114,555-000-5555,42.3572,-71.0703\n' +
+      'rx2,Springfield Pharmacy,6 State St,Springfield,MA,01103,555-000-6666,42.1043,-72.5894\n');
+  });
+  
+  afterEach(() => {
+    setProviderNetwork(undefined);
+  });
+  
+  function createTestPerson(coordinates: { latitude: number; longitude: number }) {
+    const person = PersonFactory.createPerson({ seed: 42, birthDate: new Date('1980-01-01T00:00:00Z') });
+    person.location = { city: 'Test', state: 'MA', country: 'US', coordinates };
+    return person;
+  }
+  
+  function createEncounter(encounterClass: Encounter['encounterClass']): Encounter {
+    return {
+      id: `enc-${encounterClass}`,
+      type: 'Encounter',
+      startTime: Date.UTC(2020, 0, 1),
+      encounterClass,
+      codes: { coding: [{ system: 'SNOMED-CT', code: '185349003', display: 'Encounter for check up' }] }
+    };
+  }
+  
+  test('should load provider files and staff them by specialty', async () => {
+    const network = await ProviderNetwork.load(testDir);
+    
+    // There is no urgent care file
+    expect(network.getProviders().map(p => [p.id, p.type])).toEqual([
+      ['h1', 'hospital'],
+      ['h2', 'hospital'],
+      ['p1', 'primary'],
+      ['p2', 'primary'],
+      ['rx1', 'pharmacy'],
+      ['rx2', 'pharmacy']
+    ]);
+    expect(network.getProvider('h1')).toEqual({
+      id: 'h1',
+      name: 'General Hospital, Boston',
+      type: 'hospital',
+      address: '1 Hospital Way',
+      city: 'Boston',
+      state: 'MA',
+      zip: '02114',
+      phone: '555-000-1111',
+      coordinates: { latitude: 42.3626, longitude: -71.0685 }
+    });
+    
+    const clinicians = network.getClinicians();
+    expect(clinicians.filter(c => c.provider === 'h1').map(c => c.specialty)).toContain('EMERGENCY MEDICINE');
+    expect(clinicians.filter(c => c.provider === 'p1').map(c => c.specialty)).toEqual(['GENERAL PRACTICE']);
+    expect(clinicians.filter(c => c.provider === 'rx1')).toEqual([]);
+    expect(new Set(clinicians.map(c => c.id)).size).toBe(clinicians.length);
+    expect(clinicians.every(c => /^999\d{7}$/.test(c.id))).toBe(true);
+  });
+  
+  test('should fail without provider files', async () => {
+    await expect(ProviderNetwork.load(`${testDir}/missing`)).rejects.toThrow('No providers found');
+  });
+  
+  test('should assign the nearest primary care provider', async () => {
+    const network = await ProviderNetwork.load(testDir);
+    
+    const bostonian = createTestPerson(BOSTON);
+    expect(network.assignPrimaryCare(bostonian)!.id).toBe('p1');
+    
+    const person = createTestPerson(SPRINGFIELD);
+    expect(network.assignPrimaryCare(person)!.id).toBe('p2');
+    expect(person.attributes.get('preferred_provider_primary')).toBe('p2');
+    
+    // The PCP stays the same after moving
+    person.location!.coordinates = BOSTON;
+    expect(network.assignPrimaryCare(person)!.id).toBe('p2');
+  });
+  
+  test('should route encounter classes to facilities and clinicians', async () => {
+    const network = await ProviderNetwork.load(testDir);
+    const person = createTestPerson(SPRINGFIELD);
+    const clinician = (id?: string) => network.getClinicians().find(c => c.id === id)!;
+    
+    const wellness = createEncounter('wellness');
+    network.attributeEncounter(person, wellness);
+    expect(wellness.provider).toBe('p2');
+    expect(clinician(wellness.clinician).specialty).toBe('GENERAL PRACTICE');
+    
+    const emergency = createEncounter('emergency');
+    network.attributeEncounter(person, emergency);
+    expect(emergency.provider).toBe('h2');
+    expect(clinician(emergency.clinician)).toMatchObject({ provider: 'h2', specialty: 'EMERGENCY MEDICINE' });
+    
+    // Without urgent care facilities the nearest hospital is used
+    const urgent = createEncounter('urgent');
+    network.attributeEncounter(person, urgent);
+    expect(urgent.provider).toBe('h2');
+    expect(clinician(urgent.clinician)).toMatchObject({ provider: 'h2', specialty: 'GENERAL PRACTICE' });
+  });
+  
+  test('should attribute simulated encounters while a network is set', async () => {
+    setProviderNetwork(await ProviderNetwork.load(testDir));
+    expect(getProviderNetwork()).toBeDefined();
+    
+    const module: Module = {
+      name: 'Provider Test',
+      states: {
+        'Initial': {
+          type: 'Initial',
+          direct_transition: 'Emergency'
+        },
+        'Emergency': {
+          type: 'Encounter',
+          encounter_class: 'emergency',
+          codes: [{ system: 'SNOMED-CT', code: '50849002', display: 'Emergency room admission' }],
+          direct_transition: 'Painkiller'
+        },
+        'Painkiller': {
+          type: 'MedicationOrder',
+          codes: [{ system: 'RxNorm', code: '313782', display: 'Acetaminophen 325 MG Oral Tablet' }],
+          direct_transition: 'Injection'
+        },
+        'Injection': {
+          type: 'MedicationOrder',
+          codes: [{ system: 'RxNorm', code: '1659263', display: 'Ceftriaxone 1000 MG Injection' }],
+          administration: true,
+          direct_transition: 'Terminal'
+        },
+        'Terminal': {
+          type: 'Terminal'
+        }
+      }
+    };
+    
+    const person = createTestPerson(BOSTON);
+    await new ModuleEngine(module).process(person, Date.UTC(2020, 0, 1));
+    
+    expect(person.record.encounters[0]!.provider).toBe('h1');
+    expect(person.record.encounters[0]!.clinician).toBeDefined();
+    
+    // Prescriptions are dispensed by the nearest pharmacy
+    expect(person.record.medications.map(m => m.pharmacy)).toEqual(['rx1', undefined]);
+  });
+  
+  test('should only use the network while its generator runs', async () => {
+    const modulesDir = `${testDir}-modules`;
+    await rm(modulesDir, { recursive: true, force: true });
+    await mkdir(modulesDir, { recursive: true });
+    await writeFile(`${modulesDir}/checkup.json`, JSON.stringify({
+      name: 'Checkup',
+      states: {
+        'Initial': { type: 'Initial', direct_transition: 'Checkup' },
+        'Checkup': {
+          type: 'Encounter',
+          encounter_class: 'ambulatory',
+          codes: [{ system: 'SNOMED-CT', code: '185349003', display: 'Encounter for check up' }],
+          direct_transition: 'Terminal'
+        },
+        'Terminal': { type: 'Terminal' }
+      }
+    }));
+    
+    const generate = async (providersDirectory?: string) => {
+      const storage = new InMemoryPersonStorage();
+      await new Generator({ population: 1, seed: 1, modules: [modulesDir], exportFormat: undefined, providersDirectory }, storage).generate();
+      return (await storage.getAll())[0]!.record.encounters[0]!;
+    };
+    
+    expect((await generate(testDir)).provider).toBeDefined();
+    expect(getProviderNetwork()).toBeUndefined();
+    expect((await generate()).provider).toBeUndefined();
+    
+    await rm(modulesDir, { recursive: true, force: true });
+  });
+});